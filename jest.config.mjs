@@ -0,0 +1,22 @@
+/** @type {import("jest").Config} */
+export default {
+    testEnvironment: "node",
+    roots: ["<rootDir>/src"],
+    transform: {
+        // the tests run as commonjs, the build keeps the module syntax
+        "^.+\\.tsx?$": [
+            "ts-jest",
+            {
+                tsconfig: {
+                    module: "commonjs",
+                    moduleResolution: "node10",
+                    verbatimModuleSyntax: false,
+                    esModuleInterop: true,
+                    strict: true,
+                    jsx: "react-jsx",
+                    jsxImportSource: "@emotion/react",
+                },
+            },
+        ],
+    },
+};
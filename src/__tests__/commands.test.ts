@@ -0,0 +1,145 @@
+import { createCommandRegistry } from "../core/commands";
+
+const keydown = (init: Partial<KeyboardEvent>) =>
+    ({
+        key: "",
+        code: "",
+        ctrlKey: false,
+        metaKey: false,
+        altKey: false,
+        shiftKey: false,
+        preventDefault: jest.fn(),
+        ...init,
+    }) as unknown as KeyboardEvent;
+
+describe("createCommandRegistry", () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+        warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        warn.mockRestore();
+    });
+
+    it("registers and removes the commands", () => {
+        const registry = createCommandRegistry([
+            { id: "copy", label: "Copy", run: jest.fn() },
+        ]);
+        const listener = jest.fn();
+        registry.subscribe(listener);
+
+        const unregister = registry.register({
+            id: "paste",
+            label: "Paste",
+            run: jest.fn(),
+        });
+        const commands = registry.getAll();
+
+        expect(commands.map(({ id }) => id)).toEqual(["copy", "paste"]);
+        // the same array until the commands change
+        expect(registry.getAll()).toBe(commands);
+
+        unregister();
+
+        expect(registry.get("paste")).toBeUndefined();
+        expect(registry.getAll().map(({ id }) => id)).toEqual(["copy"]);
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("warns when an id is registered twice", () => {
+        const registry = createCommandRegistry([
+            { id: "copy", label: "Copy", run: jest.fn() },
+        ]);
+        const run = jest.fn();
+
+        registry.register({ id: "copy", label: "Copy again", run });
+        registry.run("copy");
+
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringContaining('Command "copy" is registered twice'),
+        );
+        expect(run).toHaveBeenCalled();
+    });
+
+    it("runs the available commands only", () => {
+        const run = jest.fn();
+        const registry = createCommandRegistry([
+            {
+                id: "delete",
+                label: "Delete",
+                enabled: ({ targets }) => targets.length > 0,
+                run,
+            },
+        ]);
+
+        expect(registry.run("delete")).toBe(false);
+        expect(registry.run("delete", { targets: ["a.txt"] })).toBe(true);
+        expect(run).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "delete", targets: ["a.txt"] }),
+        );
+
+        expect(registry.run("unknown")).toBe(false);
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringContaining('No command with the id "unknown"'),
+        );
+    });
+
+    it("keeps the default params when undefined is passed", () => {
+        const visible = jest.fn(() => true);
+        const registry = createCommandRegistry([
+            { id: "open", label: "Open", visible, run: jest.fn() },
+        ]);
+
+        expect(
+            registry.isAvailable("open", {
+                targets: undefined,
+                triggerEvent: undefined,
+            }),
+        ).toBe(true);
+        expect(visible).toHaveBeenCalledWith(
+            expect.objectContaining({
+                id: "open",
+                targets: [],
+                triggerEvent: {},
+            }),
+        );
+    });
+
+    it("runs the command bound to the pressed shortcut", () => {
+        const run = jest.fn();
+        const registry = createCommandRegistry([
+            { id: "rename", label: "Rename", shortcut: "F2", run },
+        ]);
+        const event = keydown({ key: "F2", code: "F2" });
+
+        expect(registry.handleKeyDown(keydown({ key: "F3" }))).toBe(false);
+        expect(registry.handleKeyDown(event, { targets: ["a.txt"] })).toBe(
+            true,
+        );
+        expect(event.preventDefault).toHaveBeenCalled();
+        expect(run).toHaveBeenCalledWith(
+            expect.objectContaining({ targets: ["a.txt"], event }),
+        );
+    });
+
+    it("skips the invalid shortcuts", () => {
+        const registry = createCommandRegistry([
+            {
+                id: "broken",
+                label: "Broken",
+                shortcut: "Hyper+K",
+                run: jest.fn(),
+            },
+        ]);
+
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringContaining('Invalid shortcut "Hyper+K"'),
+        );
+        expect(() =>
+            registry.handleKeyDown(keydown({ key: "k", code: "KeyK" })),
+        ).not.toThrow();
+        expect(registry.get("broken")).toBeDefined();
+    });
+});
@@ -0,0 +1,30 @@
+import { pushMenu, removeMenu, type MenuStack } from "../components/menuStack";
+
+const createMenuRef = () => ({ current: null });
+
+describe("pushMenu", () => {
+    it("puts a menu shown again above the menus shown before it", () => {
+        const stack: MenuStack = [];
+        const pinned = createMenuRef();
+        const other = createMenuRef();
+
+        expect(pushMenu(stack, pinned)).toBe(0);
+        expect(pushMenu(stack, other)).toBe(1);
+
+        // the pinned menu stays open while it's shown again
+        expect(pushMenu(stack, pinned)).toBe(2);
+        expect(stack).toEqual([other, pinned]);
+    });
+
+    it("starts the layers over once every menu is closed", () => {
+        const stack: MenuStack = [];
+        const menu = createMenuRef();
+
+        pushMenu(stack, menu);
+        pushMenu(stack, createMenuRef());
+        removeMenu(stack, menu);
+        removeMenu(stack, stack[0]);
+
+        expect(pushMenu(stack, menu)).toBe(0);
+    });
+});
@@ -0,0 +1,126 @@
+import { mergeMenus } from "../schema/merge";
+import type { ItemDescriptor, MenuItemDescriptor } from "../schema/types";
+import type { ItemParams, PredicateParams } from "../types";
+
+const params = { targets: [] } as unknown as PredicateParams;
+
+const getKeys = (items: MenuItemDescriptor[]) =>
+    items.map((item) =>
+        item.type === "separator" ? "---" : (item.id ?? item.label),
+    );
+
+describe("mergeMenus", () => {
+    it("keeps the entries found in every menu, in the order of the first one", () => {
+        const merged = mergeMenus([
+            [
+                { type: "item", id: "open", label: "Open" },
+                { type: "separator" },
+                { type: "item", id: "rename", label: "Rename" },
+                { type: "separator" },
+                { type: "item", id: "delete", label: "Delete" },
+            ],
+            [
+                { type: "item", id: "delete", label: "Delete" },
+                { type: "item", id: "open", label: "Open" },
+            ],
+        ]);
+
+        // the separators left next to each other are collapsed
+        expect(getKeys(merged)).toEqual(["open", "---", "delete"]);
+    });
+
+    it("keeps every entry once on `all`", () => {
+        const merged = mergeMenus(
+            [
+                [{ type: "item", id: "open", label: "Open" }],
+                [
+                    { type: "item", id: "open", label: "Open" },
+                    { type: "item", id: "extract", label: "Extract" },
+                ],
+            ],
+            { mode: "all" },
+        );
+
+        expect(getKeys(merged)).toEqual(["open", "extract"]);
+    });
+
+    it("matches the entries without id by type and label", () => {
+        const merged = mergeMenus([
+            [
+                { type: "item", label: "Copy" },
+                { type: "checkbox", label: "Copy" },
+            ],
+            [{ type: "item", label: "Copy" }],
+        ]);
+
+        expect(merged).toEqual([
+            expect.objectContaining({ type: "item", label: "Copy" }),
+        ]);
+    });
+
+    it("runs the action of every target", () => {
+        const first = jest.fn();
+        const second = jest.fn();
+
+        const [merged] = mergeMenus([
+            [{ type: "item", id: "delete", label: "Delete", onClick: first }],
+            [{ type: "item", id: "delete", label: "Delete", onClick: second }],
+        ]) as ItemDescriptor[];
+
+        merged.onClick?.(params as ItemParams);
+
+        expect(first).toHaveBeenCalledWith(params);
+        expect(second).toHaveBeenCalledWith(params);
+    });
+
+    it("combines the predicates", () => {
+        const menus: MenuItemDescriptor[][] = [
+            [{ type: "item", id: "open", label: "Open", hidden: true }],
+            [{ type: "item", id: "open", label: "Open", disabled: () => true }],
+        ];
+
+        const [common] = mergeMenus(menus) as ItemDescriptor[];
+        const [all] = mergeMenus(menus, { mode: "all" }) as ItemDescriptor[];
+
+        expect(common.hidden).toBeInstanceOf(Function);
+        expect((common.hidden as (p: PredicateParams) => boolean)(params)).toBe(
+            true,
+        );
+        expect((all.hidden as (p: PredicateParams) => boolean)(params)).toBe(
+            false,
+        );
+        expect((all.disabled as (p: PredicateParams) => boolean)(params)).toBe(
+            true,
+        );
+    });
+
+    it("merges the submenus recursively", () => {
+        const [share] = mergeMenus([
+            [
+                {
+                    type: "submenu",
+                    label: "Share",
+                    items: [
+                        { type: "item", id: "email", label: "Email" },
+                        { type: "item", id: "link", label: "Copy link" },
+                    ],
+                },
+            ],
+            [
+                {
+                    type: "submenu",
+                    label: "Share",
+                    items: [{ type: "item", id: "email", label: "Email" }],
+                },
+            ],
+        ]);
+
+        expect(share.type === "submenu" && getKeys(share.items)).toEqual([
+            "email",
+        ]);
+    });
+
+    it("returns no entry without menus", () => {
+        expect(mergeMenus([])).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import {
+    computePosition,
+    flip,
+    offset,
+    type Rect,
+    shift,
+} from "../core/positioning";
+
+// an 800x600 viewport
+const ownerDocument = {
+    documentElement: { clientWidth: 800, clientHeight: 600 },
+} as Document;
+
+const rect = (x: number, y: number, width: number, height: number): Rect => ({
+    x,
+    y,
+    width,
+    height,
+});
+
+const menu = rect(0, 0, 200, 100);
+
+describe("computePosition", () => {
+    it("places the floating element against the reference", () => {
+        expect(
+            computePosition(rect(100, 100, 50, 20), menu, { ownerDocument }),
+        ).toEqual({ x: 100, y: 120, placement: "bottom-start" });
+
+        expect(
+            computePosition(rect(100, 100, 50, 20), menu, {
+                placement: "right-start",
+                middleware: [offset(4)],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 154, y: 100, placement: "right-start" });
+    });
+
+    it("flips to the side with more room", () => {
+        expect(
+            computePosition(rect(100, 550, 50, 20), menu, {
+                middleware: [flip()],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 100, y: 450, placement: "top-start" });
+
+        expect(
+            computePosition(rect(700, 100, 80, 20), menu, {
+                placement: "right-start",
+                middleware: [flip()],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 500, y: 100, placement: "left-start" });
+    });
+
+    it("runs the middleware again after a flip", () => {
+        expect(
+            computePosition(rect(100, 550, 50, 20), menu, {
+                middleware: [offset(4), flip()],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 100, y: 446, placement: "top-start" });
+    });
+
+    it("keeps the side when the other one has less room", () => {
+        expect(
+            computePosition(rect(100, 200, 50, 20), rect(0, 0, 200, 500), {
+                middleware: [flip(), shift()],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 100, y: 100, placement: "bottom-start" });
+    });
+
+    it("shifts the floating element inside the boundary", () => {
+        expect(
+            computePosition(rect(750, 100, 20, 20), menu, {
+                middleware: [shift({ padding: 8 })],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 592, y: 120, placement: "bottom-start" });
+
+        expect(
+            computePosition(rect(150, 150, 20, 20), menu, {
+                boundary: rect(100, 100, 300, 150),
+                middleware: [shift()],
+                ownerDocument,
+            }),
+        ).toEqual({ x: 150, y: 150, placement: "bottom-start" });
+    });
+});
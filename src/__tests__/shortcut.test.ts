@@ -0,0 +1,130 @@
+import {
+    createShortcutMatcher,
+    formatShortcut,
+    getAriaKeyShortcuts,
+    isValidShortcut,
+    normalizeShortcut,
+    parseShortcut,
+} from "../core/shortcut";
+
+const keydown = (init: Partial<KeyboardEvent>) =>
+    ({
+        key: "",
+        code: "",
+        ctrlKey: false,
+        metaKey: false,
+        altKey: false,
+        shiftKey: false,
+        ...init,
+    }) as KeyboardEvent;
+
+describe("parseShortcut", () => {
+    it("resolves Mod for the platform", () => {
+        expect(parseShortcut("Mod+Shift+K", "mac")).toEqual({
+            key: "k",
+            ctrl: false,
+            meta: true,
+            alt: false,
+            shift: true,
+        });
+        expect(parseShortcut("Mod+Shift+K", "other")).toMatchObject({
+            key: "k",
+            ctrl: true,
+            meta: false,
+        });
+    });
+
+    it("supports the aliases and the plus key", () => {
+        expect(parseShortcut("cmd+esc", "other")).toMatchObject({
+            key: "Escape",
+            meta: true,
+        });
+        expect(parseShortcut("Ctrl++", "other")).toMatchObject({
+            key: "+",
+            ctrl: true,
+        });
+    });
+
+    it("throws on an unknown modifier or a missing key", () => {
+        expect(() => parseShortcut("Hyper+K")).toThrow(/Unknown modifier/);
+        expect(() => parseShortcut("")).toThrow(/Missing key/);
+        expect(isValidShortcut("Hyper+K")).toBe(false);
+        expect(isValidShortcut("Alt+F4")).toBe(true);
+    });
+});
+
+describe("createShortcutMatcher", () => {
+    it("requires the exact modifiers", () => {
+        const matches = createShortcutMatcher("Ctrl+K", "other");
+
+        expect(
+            matches(keydown({ key: "k", code: "KeyK", ctrlKey: true })),
+        ).toBe(true);
+        expect(
+            matches(keydown({ key: "K", code: "KeyK", ctrlKey: true })),
+        ).toBe(true);
+        expect(matches(keydown({ key: "k", code: "KeyK" }))).toBe(false);
+        expect(
+            matches(
+                keydown({
+                    key: "k",
+                    code: "KeyK",
+                    ctrlKey: true,
+                    altKey: true,
+                }),
+            ),
+        ).toBe(false);
+    });
+
+    it("matches the typed letter rather than the physical key", () => {
+        // the A of an AZERTY keyboard sits where the Q of a QWERTY one is
+        const azertyA = keydown({ key: "a", code: "KeyQ", ctrlKey: true });
+
+        expect(createShortcutMatcher("Ctrl+A", "other")(azertyA)).toBe(true);
+        expect(createShortcutMatcher("Ctrl+Q", "other")(azertyA)).toBe(false);
+    });
+
+    it("falls back to the physical key for other characters", () => {
+        expect(
+            createShortcutMatcher(
+                "Ctrl+K",
+                "other",
+            )(keydown({ key: "л", code: "KeyK", ctrlKey: true })),
+        ).toBe(true);
+        expect(
+            createShortcutMatcher(
+                "Shift+1",
+                "other",
+            )(keydown({ key: "!", code: "Digit1", shiftKey: true })),
+        ).toBe(true);
+    });
+
+    it("matches the named keys", () => {
+        const matches = createShortcutMatcher("Delete", "other");
+
+        expect(matches(keydown({ key: "Delete", code: "Delete" }))).toBe(true);
+        expect(matches(keydown({ key: "Backspace", code: "Backspace" }))).toBe(
+            false,
+        );
+    });
+});
+
+describe("shortcut formatting", () => {
+    it("gives the same canonical form to equivalent shortcuts", () => {
+        expect(normalizeShortcut("shift+ctrl+k", "other")).toBe(
+            normalizeShortcut("Ctrl+Shift+K", "other"),
+        );
+    });
+
+    it("formats for the platform", () => {
+        expect(formatShortcut("Mod+Shift+K", "mac")).toBe("⇧⌘K");
+        expect(formatShortcut("Mod+Shift+K", "other")).toBe("Ctrl+Shift+K");
+        expect(formatShortcut("Ctrl+Space", "other")).toBe("Ctrl+Space");
+    });
+
+    it("builds the aria-keyshortcuts value", () => {
+        expect(getAriaKeyShortcuts("Mod+Shift+K", "other")).toBe(
+            "Control+Shift+K",
+        );
+    });
+});
@@ -0,0 +1,100 @@
+import { validateMenuItems } from "../schema/validate";
+
+describe("validateMenuItems", () => {
+    it("accepts a valid schema", () => {
+        expect(
+            validateMenuItems([
+                { type: "item", id: "copy", label: "Copy", shortcut: "Mod+C" },
+                { type: "separator" },
+                {
+                    type: "submenu",
+                    label: "Share",
+                    items: [{ type: "item", label: "Email" }],
+                },
+                {
+                    type: "radio-group",
+                    items: [{ type: "radio", label: "Small", value: "sm" }],
+                },
+            ]),
+        ).toEqual([]);
+    });
+
+    it("reports what isn't an array of descriptors", () => {
+        expect(validateMenuItems({})).toEqual([
+            expect.objectContaining({ code: "invalid-type", path: "items" }),
+        ]);
+    });
+
+    it("reports the unsupported types", () => {
+        expect(
+            validateMenuItems([
+                { type: "button" },
+                { type: "radio", label: "Small", value: "sm" },
+                { type: "radio-group", items: [{ type: "item", label: "A" }] },
+            ]),
+        ).toEqual([
+            expect.objectContaining({ code: "invalid-type", path: "items[0]" }),
+            expect.objectContaining({ code: "invalid-type", path: "items[1]" }),
+            expect.objectContaining({
+                code: "invalid-type",
+                path: "items[2].items[0]",
+            }),
+        ]);
+    });
+
+    it("reports the unknown and missing fields", () => {
+        expect(
+            validateMenuItems([
+                { type: "item", label: "Copy", onSelect: () => {} },
+                { type: "submenu", label: "Share" },
+            ]),
+        ).toEqual([
+            expect.objectContaining({
+                code: "unknown-field",
+                path: "items[0]",
+                message: 'Unknown field "onSelect" on "item"',
+            }),
+            expect.objectContaining({
+                code: "missing-field",
+                path: "items[1]",
+                message: 'Missing field "items" on "submenu"',
+            }),
+        ]);
+    });
+
+    it("reports the ids used twice across the schema", () => {
+        expect(
+            validateMenuItems([
+                { type: "item", id: "copy", label: "Copy" },
+                {
+                    type: "group",
+                    items: [{ type: "item", id: "copy", label: "Copy" }],
+                },
+            ]),
+        ).toEqual([
+            {
+                code: "duplicate-id",
+                path: "items[1].items[0]",
+                message: 'Duplicate id "copy", already used at items[0]',
+            },
+        ]);
+    });
+
+    it("reports the invalid shortcuts", () => {
+        expect(
+            validateMenuItems([
+                { type: "item", label: "Copy", shortcut: "Hyper+C" },
+                { type: "checkbox", label: "Bold", shortcut: 42 },
+            ]),
+        ).toEqual([
+            expect.objectContaining({
+                code: "invalid-shortcut",
+                path: "items[0]",
+            }),
+            expect.objectContaining({
+                code: "invalid-shortcut",
+                path: "items[1]",
+            }),
+        ]);
+    });
+});
@@ -0,0 +1,61 @@
+import type { FC, ReactNode } from "react";
+
+import type { ItemParams } from "../types";
+import { Item, type ItemProps } from "./Item";
+import { ItemIndicator } from "./ItemIndicator";
+import { useMenuItemState } from "./MenuProvider";
+
+export interface CheckboxItemProps<Props = any, Data = any> extends Omit<
+    ItemProps<Props, Data>,
+    "onClick"
+> {
+    /**
+     * Controlled state. Leave undefined to let the item manage its own state
+     */
+    checked?: boolean;
+    defaultChecked?: boolean;
+    onCheckedChange?: (checked: boolean, args: ItemParams<Props, Data>) => void;
+    indicator?: ReactNode;
+}
+
+export const CheckboxItem: FC<CheckboxItemProps> = ({
+    id,
+    checked,
+    defaultChecked = false,
+    onCheckedChange,
+    closeOnClick = false,
+    indicator,
+    children,
+    ...rest
+}) => {
+    const [isChecked, setChecked] = useMenuItemState(
+        id,
+        checked,
+        defaultChecked,
+    );
+
+    function handleClick(args: ItemParams) {
+        setChecked(!isChecked);
+        onCheckedChange?.(!isChecked, args);
+    }
+
+    return (
+        <Item
+            id={id}
+            role="menuitemcheckbox"
+            aria-checked={isChecked}
+            closeOnClick={closeOnClick}
+            onClick={handleClick}
+            startDecorator={
+                indicator === undefined ? (
+                    <ItemIndicator type="checkbox" checked={isChecked} />
+                ) : (
+                    isChecked && indicator
+                )
+            }
+            {...rest}
+        >
+            {children}
+        </Item>
+    );
+};
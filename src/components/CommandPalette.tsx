@@ -0,0 +1,77 @@
+import type { FC } from "react";
+
+import { useCommands } from "../hooks";
+import type { MenuId } from "../types";
+import { getNodeText, renderWithTargets } from "../utils";
+import { Item } from "./Item";
+import { Menu, type MenuProps } from "./Menu";
+
+export interface CommandPaletteProps extends Omit<
+    MenuProps,
+    "id" | "children" | "items" | "filterable"
+> {
+    /**
+     * Defaults to `command-palette`
+     */
+    id?: MenuId;
+    /**
+     * Ids of the commands listed, in order. Defaults to every registered command
+     */
+    commands?: string[];
+}
+
+export const COMMAND_PALETTE_ID = "command-palette";
+
+/**
+ * Filterable menu listing the registered commands, shown like any other menu.
+ * The targets given to `show` reach the predicates and the actions of the commands
+ *
+ * ```
+ * <CommandPalette />
+ *
+ * contextMenu.show({
+ *   id: COMMAND_PALETTE_ID,
+ *   event,
+ *   anchor: { x: innerWidth / 2, y: 80, width: 0, height: 0 },
+ *   targets: selection,
+ * });
+ * ```
+ */
+export const CommandPalette: FC<CommandPaletteProps> = ({
+    id = COMMAND_PALETTE_ID,
+    commands: commandIds,
+    filterPlaceholder = "Type a command",
+    placement = "bottom",
+    ...rest
+}) => {
+    const registered = useCommands();
+    const commands = commandIds
+        ? commandIds.flatMap(
+              (commandId) =>
+                  registered.find((command) => command.id === commandId) ?? [],
+          )
+        : registered;
+
+    return (
+        <Menu
+            id={id}
+            filterable
+            filterPlaceholder={filterPlaceholder}
+            placement={placement}
+            {...rest}
+        >
+            {commands.map((command) => (
+                <Item
+                    key={command.id}
+                    id={command.id}
+                    command={command.id}
+                    // the keywords match like the label
+                    textValue={[
+                        getNodeText(renderWithTargets(command.label, [])),
+                        ...(command.keywords ?? []),
+                    ].join(" ")}
+                />
+            ))}
+        </Menu>
+    );
+};
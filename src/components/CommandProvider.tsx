@@ -0,0 +1,29 @@
+import { createContext, type FC, type ReactNode, useContext } from "react";
+
+import { type CommandRegistry, commandRegistry } from "../core";
+
+const Context = createContext<CommandRegistry>(commandRegistry);
+
+export interface CommandProviderProps {
+    children: ReactNode;
+    registry: CommandRegistry;
+}
+
+/**
+ * Registry used by the `Item command` bindings and the `CommandPalette` below it
+ *
+ * ```
+ * <CommandProvider registry={commands}>
+ *   <App />
+ * </CommandProvider>
+ * ```
+ */
+export const CommandProvider: FC<CommandProviderProps> = ({
+    children,
+    registry,
+}) => <Context.Provider value={registry}>{children}</Context.Provider>;
+
+/**
+ * Command registry of the closest `CommandProvider`, the global `commandRegistry` otherwise
+ */
+export const useCommandRegistry = () => useContext(Context);
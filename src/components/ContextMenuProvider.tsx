@@ -0,0 +1,46 @@
+import {
+    createContext,
+    type FC,
+    type ReactNode,
+    useContext,
+    useState,
+} from "react";
+
+import { type ContextMenu, contextMenu, createContextMenu } from "../core";
+
+const Context = createContext<ContextMenu>(contextMenu);
+
+export interface ContextMenuProviderProps {
+    children: ReactNode;
+    /**
+     * Instance shared with the code outside of React, created with `createContextMenu`. Defaults to a new one
+     */
+    contextMenu?: ContextMenu;
+}
+
+/**
+ * Isolate the menus below it from the rest of the page: ids, `hideAll` and the lifecycle events only reach the menus of the same provider
+ *
+ * ```
+ * <ContextMenuProvider>
+ *   <App />
+ * </ContextMenuProvider>
+ * ```
+ */
+export const ContextMenuProvider: FC<ContextMenuProviderProps> = ({
+    children,
+    contextMenu: instance,
+}) => {
+    const [ownInstance] = useState(() => instance ?? createContextMenu());
+
+    return (
+        <Context.Provider value={instance ?? ownInstance}>
+            {children}
+        </Context.Provider>
+    );
+};
+
+/**
+ * Context menu API of the closest `ContextMenuProvider`, the global `contextMenu` otherwise
+ */
+export const useContextMenuInstance = () => useContext(Context);
@@ -1,57 +1,132 @@
 import type React from "react";
-import { type FC, type ReactNode, useRef } from "react";
+import { type FC, type ReactNode, useEffect, useRef } from "react";
 
 import { Button, type ButtonProps, useTheme } from "@mutualzz/ui-web";
-import { NOOP } from "../constants";
-import { contextMenu } from "../core";
-import type { BooleanPredicate, BuiltInOrString, HandlerParamsEvent, InternalProps, ItemParams, } from "../types";
-import { getPredicateValue, isFn } from "../utils";
+import { EVENT, NOOP } from "../constants";
+import {
+    createShortcutMatcher,
+    formatShortcut,
+    getAriaKeyShortcuts,
+    type HideAllParams,
+    isValidShortcut,
+    type ItemActivatedParams,
+} from "../core";
+import { useCommand } from "../hooks";
+import type { AppliesTo, BooleanPredicate, BuiltInOrString, HandlerParamsEvent, InternalProps, ItemParams, TargetsRenderer, } from "../types";
+import { appliesToTargets, getNodeText, getPredicateValue, isFn, renderWithTargets, warnInDev } from "../utils";
+import { useContextMenuInstance } from "./ContextMenuProvider";
 import { useItemTrackerContext } from "./ItemTrackerProvider";
+import { useMenuContext } from "./MenuProvider";
+import { RightSlot } from "./RightSlot";
 
-export interface ItemProps
+export interface ItemProps<Props = any, Data = any>
     extends
         InternalProps,
-        Omit<ButtonProps, "hidden" | "disabled" | "onClick"> {
-    children: ReactNode;
-    data?: any;
-    disabled?: BooleanPredicate;
-    hidden?: BooleanPredicate;
-    onClick?: (args: ItemParams) => void;
+        Omit<ButtonProps, "hidden" | "disabled" | "onClick" | "children"> {
+    /**
+     * Content of the item, or a function rendering it from the targets, ie: `({ count }) => \`Delete ${count} files\``
+     */
+    children?: ReactNode | TargetsRenderer;
+    /**
+     * Id of a registered command, giving the item its label, icon, shortcut, predicates and action.
+     * The props of the item take precedence
+     */
+    command?: string;
+    data?: Data;
+    disabled?: BooleanPredicate<Props, Data>;
+    hidden?: BooleanPredicate<Props, Data>;
+    /**
+     * Hide the item unless the menu was opened for one target, several, or a matching selection
+     */
+    appliesTo?: AppliesTo;
+    onClick?: (args: ItemParams<Props, Data>) => void;
     keyMatcher?: (e: KeyboardEvent) => boolean;
+    /**
+     * Shortcut like `Mod+Shift+K`, displayed next to the label. Ignored for matching when `keyMatcher` is set
+     */
+    shortcut?: string;
+    /**
+     * Text used by the typeahead and the filter, defaults to the text content of the children
+     */
+    textValue?: string;
     closeOnClick?: boolean;
     handlerEvent?: BuiltInOrString<"onClick" | "onMouseDown" | "onMouseUp">;
+    /**
+     * INTERNAL USE ONLY: Don't emit `item-activated`, for the rows the menu renders itself
+     */
+    isInternal?: boolean;
 }
 
 export const Item: FC<ItemProps> = ({
     id,
-    children,
+    children: childrenProp,
+    command,
     style,
     color,
     triggerEvent,
     data,
     propsFromTrigger,
     keyMatcher,
-    onClick = NOOP,
+    shortcut: shortcutProp,
+    textValue,
+    onClick: onClickProp = NOOP,
     disabled = false,
     hidden = false,
+    appliesTo,
     closeOnClick = true,
     textColor,
     handlerEvent = "onClick",
+    isInternal = false,
+    endDecorator,
     ...rest
 }) => {
     const { theme } = useTheme();
     const itemNode = useRef<HTMLElement>(undefined);
     const itemTracker = useItemTrackerContext();
+    const { menuId, dormant, filterQuery, filter, targets } = useMenuContext();
+    const { eventManager } = useContextMenuInstance();
+    const boundCommand = useCommand(command);
+    const children = childrenProp ?? boundCommand?.label;
+    const shortcutValue = shortcutProp ?? boundCommand?.shortcut;
+    // an invalid shortcut is left out instead of breaking the menu
+    const shortcut =
+        shortcutValue && isValidShortcut(shortcutValue)
+            ? shortcutValue
+            : undefined;
+    const onClick = boundCommand
+        ? (args: ItemParams) => {
+              boundCommand.run(args);
+              onClickProp(args);
+          }
+        : onClickProp;
 
     const handlerParams = {
         id,
         data,
         triggerEvent: triggerEvent as HandlerParamsEvent,
         props: propsFromTrigger,
+        targets,
     } as ItemParams;
+    const content = renderWithTargets(children, targets);
 
-    const isDisabled = getPredicateValue(disabled, handlerParams);
-    const isHidden = getPredicateValue(hidden, handlerParams);
+    const isDisabled =
+        getPredicateValue(disabled, handlerParams) ||
+        !getPredicateValue(boundCommand?.enabled ?? true, handlerParams);
+    const isHidden =
+        getPredicateValue(hidden, handlerParams) ||
+        // an unknown command has nothing to run
+        (!!command && !boundCommand) ||
+        !getPredicateValue(boundCommand?.visible ?? true, handlerParams) ||
+        !appliesToTargets(appliesTo, targets) ||
+        (!!filterQuery &&
+            !filter(textValue ?? getNodeText(content), filterQuery));
+    const matchKey =
+        keyMatcher ?? (shortcut ? createShortcutMatcher(shortcut) : undefined);
+
+    useEffect(() => {
+        if (shortcutValue && !shortcut)
+            warnInDev(`Invalid shortcut "${shortcutValue}", it is ignored`);
+    }, [shortcutValue, shortcut]);
 
     function handleClick(e: React.MouseEvent<HTMLElement>) {
         handlerParams.event = e;
@@ -59,6 +134,18 @@ export const Item: FC<ItemProps> = ({
 
         if (isDisabled) return;
 
+        activate();
+    }
+
+    function activate() {
+        if (!isInternal)
+            eventManager.emit<ItemActivatedParams>(EVENT.ITEM_ACTIVATED, {
+                menuId,
+                id,
+                data,
+                closeOnClick,
+            });
+
         if (!closeOnClick) {
             onClick(handlerParams);
             return;
@@ -68,29 +155,34 @@ export const Item: FC<ItemProps> = ({
     }
 
     function dispatchUserHandler() {
-        const node = itemNode.current!;
-        node.focus();
-        node.addEventListener("blur", () => setTimeout(contextMenu.hideAll), {
-            once: true,
-        });
-
         onClick(handlerParams);
+
+        // the menu gives the focus back to where it was before opening
+        eventManager.emit<HideAllParams>(EVENT.HIDE_ALL, { reason: "item" });
     }
 
     function registerItem(node: HTMLElement | null) {
+        // drop the previous registration, the item may be unmounted or disabled by now
+        if (itemNode.current) itemTracker.delete(itemNode.current);
+
         if (node && !isDisabled) {
             itemNode.current = node;
             itemTracker.set(node, {
                 node,
                 isSubmenu: false,
+                shortcut,
+                textValue,
                 keyMatcher:
-                    isFn(keyMatcher) &&
+                    isFn(matchKey) &&
                     ((e: KeyboardEvent) => {
-                        if (keyMatcher(e)) {
+                        if (matchKey(e)) {
                             e.stopPropagation();
                             e.preventDefault();
                             handlerParams.event = e;
-                            dispatchUserHandler();
+
+                            // the menu is closed, run the action without touching the focus
+                            if (dormant) onClick(handlerParams);
+                            else activate();
                         }
                     }),
             });
@@ -99,9 +191,11 @@ export const Item: FC<ItemProps> = ({
 
     function handleKeyDown(e: React.KeyboardEvent<HTMLElement>) {
         if (e.key === "Enter" || e.key === " ") {
+            // avoid the native click fired by buttons on Enter/Space
+            e.preventDefault();
             e.stopPropagation();
             handlerParams.event = e;
-            dispatchUserHandler();
+            activate();
         }
     }
 
@@ -114,6 +208,9 @@ export const Item: FC<ItemProps> = ({
             tabIndex={-1}
             role="menuitem"
             aria-disabled={isDisabled}
+            aria-keyshortcuts={
+                shortcut ? getAriaKeyShortcuts(shortcut) : undefined
+            }
             disabled={isDisabled}
             horizontalAlign="left"
             variant="plain"
@@ -126,6 +223,11 @@ export const Item: FC<ItemProps> = ({
                 ...style,
             }}
             fullWidth
+            endDecorator={
+                endDecorator ??
+                (shortcut && <RightSlot>{formatShortcut(shortcut)}</RightSlot>)
+            }
+            startDecorator={boundCommand?.icon}
             data-menu-item
             {...(closeOnClick
                 ? { "data-menu-close": true }
@@ -133,7 +235,7 @@ export const Item: FC<ItemProps> = ({
             {...rest}
             {...{ [handlerEvent]: handleClick }}
         >
-            {children}
+            {content}
         </Button>
     );
 };
@@ -0,0 +1,28 @@
+interface Props {
+    type: "checkbox" | "radio";
+    checked: boolean;
+}
+
+export const ItemIndicator = ({ type, checked }: Props) => (
+    <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="18"
+        height="18"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        aria-hidden
+        css={{
+            visibility: checked ? "visible" : "hidden",
+        }}
+    >
+        {type === "checkbox" ? (
+            <polyline points="20 6 9 17 4 12" />
+        ) : (
+            <circle cx="12" cy="12" r="4" fill="currentColor" />
+        )}
+    </svg>
+);
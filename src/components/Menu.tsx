@@ -1,8 +1,10 @@
 import {
     forwardRef,
     type ReactNode,
+    type RefObject,
     useEffect,
     useLayoutEffect,
+    useMemo,
     useReducer,
     useRef,
     useState,
@@ -10,15 +12,72 @@ import {
 
 import { ItemTrackerProvider } from "./ItemTrackerProvider";
 
+import createCache, { type EmotionCache } from "@emotion/cache";
+import { CacheProvider } from "@emotion/react";
 import { Paper, type PaperProps, useTheme } from "@mutualzz/ui-web";
-import { flushSync } from "react-dom";
-import { EVENT, hideOnEvents } from "../constants";
-import type { ShowContextMenuParams } from "../core";
-import { eventManager } from "../core";
+import { createPortal, flushSync } from "react-dom";
+import { hideOnEvents as defaultHideOnEvents, EVENT } from "../constants";
+import {
+    type Anchor,
+    type Boundary,
+    computePosition,
+    flip,
+    getAnchorRect,
+    type HideAllParams,
+    type HideMenuParams,
+    type HideReason,
+    isAnchorVisible,
+    type MenuHiddenParams,
+    type MenuShownParams,
+    offset,
+    type Placement,
+    shift,
+    type ShortcutTargetParams,
+    type ShowContextMenuParams,
+} from "../core";
 import { useItemTracker } from "../hooks";
+import { type MenuItemDescriptor, renderMenuItems } from "../schema";
 import type { MenuId, TriggerEvent } from "../types";
-import { cloneItems, getMousePosition, isFn } from "../utils";
-import { createKeyboardController } from "./keyboardController";
+import {
+    cloneItems,
+    defaultFilter,
+    type Direction,
+    type FilterFn,
+    getActiveElement,
+    getDirection,
+    getMenuElementId,
+    getMousePosition,
+    getOwnerWindow,
+    getPointRect,
+    isEditable,
+    isFn,
+    resolveBoundary,
+    warnInDev,
+} from "../utils";
+import {
+    animateMenu,
+    type MenuAnimation,
+    type MenuAnimationPreset,
+} from "./animation";
+import { useContextMenuInstance } from "./ContextMenuProvider";
+import {
+    createKeyboardController,
+    findShortcutConflicts,
+} from "./keyboardController";
+import {
+    type MenuContextValue,
+    MenuProvider,
+    SUBMENU_CLOSE_DELAY_MS,
+} from "./MenuProvider";
+import {
+    getMenusAbove,
+    getMenuStack,
+    isTopmostOnEvent,
+    pushMenu,
+    removeMenu,
+} from "./menuStack";
+import type { SubmenuIntent } from "./safeArea";
+import { type VirtualizedOptions, VirtualList } from "./VirtualList";
 
 function emitVisibility(id: MenuId, visible: boolean) {
     try {
@@ -32,12 +91,189 @@ function emitVisibility(id: MenuId, visible: boolean) {
     }
 }
 
-export interface MenuProps extends Omit<PaperProps, "id"> {
+export interface MenuProps extends Omit<
+    PaperProps,
+    "id" | "autoFocus" | "dir"
+> {
     id: MenuId;
-    children: ReactNode;
+    children?: ReactNode;
+    /**
+     * Render the menu from a schema instead of, or before, the children
+     */
+    items?: MenuItemDescriptor[];
     disableBoundariesCheck?: boolean;
     preventDefaultOnKeydown?: boolean;
     onVisibilityChange?: (isVisible: boolean) => void;
+    /**
+     * Keep the item shortcuts active while the menu is hidden, for key presses happening inside the scope.
+     * Items receive the props of the last target, see `contextMenu.setShortcutTarget`.
+     * Give an `id` to uncontrolled `CheckboxItem` and `RadioGroup` so their state is shared with the open menu
+     */
+    shortcutScope?: ShortcutScope;
+    /**
+     * Display an input on top of the menu, hiding the items not matching the typed text
+     */
+    filterable?: boolean;
+    filterPlaceholder?: string;
+    /**
+     * Custom matching, defaults to a case insensitive `includes`
+     */
+    filter?: FilterFn;
+    /**
+     * Where the menu opens relative to the cursor or the anchor. Can be overridden when calling `show`
+     */
+    placement?: Placement;
+    /**
+     * Distance from the anchor, use `crossAxis` to slide the menu along it
+     */
+    offset?: number | { mainAxis?: number; crossAxis?: number };
+    /**
+     * Move to the opposite side when there isn't enough room
+     */
+    flip?: boolean;
+    /**
+     * Slide the menu to keep it inside the boundary
+     */
+    shift?: boolean;
+    /**
+     * Area the menu must stay in, ie: a scroll container. Defaults to the viewport
+     */
+    boundary?: Boundary | RefObject<Element | null>;
+    collisionPadding?: number;
+    /**
+     * Reposition the menu when its anchor element moves or resizes instead of hiding it on scroll and resize.
+     * The menu is hidden once the anchor leaves the viewport
+     */
+    trackAnchor?: boolean;
+    /**
+     * Window events hiding the menu when they happen outside of it.
+     * Defaults to `resize`, `contextmenu`, `click`, `scroll` and `blur`
+     */
+    hideOnEvents?: (keyof GlobalEventHandlersEventMap)[];
+    /**
+     * Render the menu in a portal, out of any ancestor with a transform, an overflow or a stacking context.
+     * The menu goes to the body of the document that triggered it unless a `container` is given
+     */
+    portal?: boolean;
+    /**
+     * Portal container, ie: a shadow root or the body of an iframe. Implies `portal`
+     */
+    container?: PortalContainer;
+    /**
+     * Stay open on `hideAll`, including the one sent when another menu is shown.
+     * Combine with `hideOnEvents={[]}` for a palette that only closes on Escape or `contextMenu.hide(id)`
+     */
+    pinned?: boolean;
+    /**
+     * What gets the focus once the menu is open, the filter input takes it when the menu is filterable
+     */
+    autoFocus?: "first" | "menu" | "none";
+    /**
+     * Tab either closes the menu and moves on from the element focused before it, or cycles through the items
+     */
+    tabBehavior?: "close" | "trap";
+    /**
+     * Give the focus back to the element focused before the menu opened
+     */
+    restoreFocus?: boolean;
+    /**
+     * Writing direction, mirrors the submenus and the arrow keys. Defaults to the direction of the trigger
+     */
+    dir?: Direction;
+    /**
+     * Delay before a submenu opens on hover, in ms. Each `Submenu` can override it
+     */
+    submenuOpenDelay?: number;
+    /**
+     * Delay before a submenu closes once the pointer left it, in ms. Each `Submenu` can override it
+     */
+    submenuCloseDelay?: number;
+    /**
+     * Render only the visible items in a scroll container, for menus with thousands of them.
+     * Every direct child becomes a row of the same height, the shortcuts only match the rendered items.
+     * With a `shortcutScope`, only the rows with a shortcut stay mounted while the menu is hidden.
+     * Submenus aren't supported as rows, the scroll container would clip their panel
+     */
+    virtualized?: VirtualizedOptions;
+    /**
+     * Enter and exit animation of the menu and its submenus, skipped when the user prefers reduced motion.
+     * The menu unmounts and `onVisibilityChange(false)` fires once the exit animation ended. Defaults to `fade`
+     */
+    animation?: MenuAnimationPreset | MenuAnimation | false;
+}
+
+export type PortalContainer =
+    | Element
+    | DocumentFragment
+    | RefObject<Element | DocumentFragment | null>
+    | (() => Element | DocumentFragment | null);
+
+function resolveContainer(
+    container: PortalContainer | undefined,
+    triggerEvent: TriggerEvent,
+) {
+    const resolved = isFn(container)
+        ? container()
+        : container && "current" in container
+          ? container.current
+          : container;
+    if (resolved) return resolved;
+
+    // not using instanceof, the target may come from another realm
+    const target = (triggerEvent as Event).target as Node | null | undefined;
+    return (target?.ownerDocument ?? document).body;
+}
+
+const styleCaches = new WeakMap<Node, EmotionCache>();
+
+/**
+ * Emotion cache inserting the styles next to the container, null in the main document.
+ * The default cache writes to the main document, out of reach of a shadow root or an iframe
+ */
+function getStyleCache(container: Element | DocumentFragment) {
+    const root = container.getRootNode();
+    let styleRoot: Node;
+
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) styleRoot = root;
+    else if (root.nodeType === Node.DOCUMENT_NODE && root !== document)
+        styleRoot = (root as Document).head;
+    else return null;
+
+    let cache = styleCaches.get(styleRoot);
+
+    if (!cache) {
+        cache = createCache({ key: "contexify", container: styleRoot });
+        styleCaches.set(styleRoot, cache);
+    }
+
+    return cache;
+}
+
+const outsideClickEvents = new Set([
+    "click",
+    "contextmenu",
+    "mousedown",
+    "mouseup",
+    "pointerdown",
+    "pointerup",
+    "touchstart",
+    "touchend",
+]);
+
+function getHideReason(e?: Event): HideReason {
+    if (!e) return "hide-all";
+
+    return outsideClickEvents.has(e.type) ? "outside-click" : e.type;
+}
+
+export type ShortcutScope =
+    "document" | HTMLElement | RefObject<HTMLElement | null>;
+
+function resolveShortcutScope(scope?: ShortcutScope) {
+    if (scope === "document") return document;
+    if (scope instanceof HTMLElement) return scope;
+
+    return scope?.current;
 }
 
 interface MenuState {
@@ -46,11 +282,22 @@ interface MenuState {
     visible: boolean;
     triggerEvent: TriggerEvent;
     propsFromTrigger: any;
+    targets: unknown[];
     willLeave: boolean;
-    anchorBottom: { x: number; y: number } | null;
+    anchor: Anchor | null;
+    placement: Placement;
     measuring: boolean;
+    /**
+     * Position in the stack of open menus when the menu was shown
+     */
+    layer: number;
+    dir: Direction;
 }
 
+// a menu opened with props only is about a single target
+const resolveTargets = (targets: unknown[] | undefined, props: unknown) =>
+    targets ?? (props === undefined ? [] : [props]);
+
 function reducer(
     state: MenuState,
     payload: Partial<MenuState> | ((state: MenuState) => Partial<MenuState>),
@@ -66,15 +313,41 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
             color,
             className,
             children,
+            items,
             preventDefaultOnKeydown = true,
             disableBoundariesCheck = false,
             onVisibilityChange,
+            shortcutScope,
+            filterable = false,
+            filterPlaceholder = "Filter",
+            filter = defaultFilter,
+            placement = "bottom-start",
+            offset: offsetValue = 0,
+            flip: shouldFlip = true,
+            shift: shouldShift = true,
+            boundary,
+            collisionPadding = 0,
+            trackAnchor = false,
+            hideOnEvents = defaultHideOnEvents,
+            portal = false,
+            container,
+            pinned = false,
+            autoFocus = "menu",
+            tabBehavior = "close",
+            restoreFocus = true,
+            dir,
+            submenuOpenDelay = 0,
+            submenuCloseDelay = SUBMENU_CLOSE_DELAY_MS,
+            virtualized,
+            animation = "fade",
 
             ...rest
         },
         ref,
     ) => {
         const { theme } = useTheme();
+        const { eventManager } = useContextMenuInstance();
+        const menuStack = getMenuStack(eventManager);
 
         const [state, setState] = useReducer(reducer, {
             x: 0,
@@ -82,25 +355,93 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
             visible: false,
             triggerEvent: {} as TriggerEvent,
             propsFromTrigger: null,
+            targets: [],
             willLeave: false,
-            anchorBottom: null,
+            anchor: null,
+            placement,
             measuring: false,
+            layer: 0,
+            dir: "ltr",
         });
 
         const nodeRef = useRef<HTMLDivElement>(null);
         const itemTracker = useItemTracker();
         const [menuController] = useState(() => createKeyboardController());
+        const shortcutTracker = useItemTracker();
+        const [shortcutController] = useState(() => createKeyboardController());
+        const [itemState] = useState(() => new Map<string, unknown>());
+        const [filterQuery, setFilterQuery] = useState("");
+        const filterInput = useRef<HTMLInputElement>(null);
+        const [submenuIntent] = useState<SubmenuIntent>(() => ({
+            current: null,
+        }));
+        const [submenuCache] = useState(
+            () => new Map<string, WeakMap<object, ReactNode>>(),
+        );
+        const menuContext = useMemo<MenuContextValue>(
+            () => ({
+                menuId: id,
+                itemState,
+                dormant: !state.visible,
+                filterQuery: filterable && state.visible ? filterQuery : "",
+                filter,
+                boundary,
+                collisionPadding,
+                dir: state.dir,
+                submenuOpenDelay,
+                submenuCloseDelay,
+                submenuIntent,
+                submenuCache,
+                animation,
+                targets: state.targets,
+            }),
+            [
+                id,
+                itemState,
+                state.visible,
+                filterable,
+                filterQuery,
+                filter,
+                boundary,
+                collisionPadding,
+                state.dir,
+                submenuOpenDelay,
+                submenuCloseDelay,
+                submenuIntent,
+                submenuCache,
+                animation,
+                state.targets,
+            ],
+        );
         const wasVisible = useRef<boolean>(undefined);
         const visibilityId = useRef<number>(undefined);
+        // the subscription outlives renders, it shows with the latest props
+        const showRef = useRef(show);
+
+        useLayoutEffect(() => {
+            showRef.current = show;
+        });
 
         // subscribe event manager
         useEffect(() => {
-            eventManager.on(id, show).on(EVENT.HIDE_ALL, hide);
+            const onShow = (params: ShowContextMenuParams) => {
+                showRef.current(params);
+            };
+
+            eventManager
+                .on(id, onShow)
+                .on(EVENT.HIDE_ALL, hideAll)
+                .on(EVENT.HIDE, hideById)
+                .on(EVENT.SHORTCUT_TARGET, setShortcutTarget);
 
             return () => {
-                eventManager.off(id, show).off(EVENT.HIDE_ALL, hide);
+                eventManager
+                    .off(id, onShow)
+                    .off(EVENT.HIDE_ALL, hideAll)
+                    .off(EVENT.HIDE, hideById)
+                    .off(EVENT.SHORTCUT_TARGET, setShortcutTarget);
             };
-        }, [id, disableBoundariesCheck]);
+        }, [id, disableBoundariesCheck, eventManager, pinned]);
 
         // collect menu items for keyboard navigation
         useEffect(() => {
@@ -108,41 +449,177 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
                 itemTracker.clear();
             } else {
                 menuController.init(itemTracker);
+
+                for (const [shortcut, nodes] of findShortcutConflicts(
+                    itemTracker,
+                ))
+                    warnInDev(
+                        `Shortcut "${shortcut}" is used by ${nodes.length} items of menu "${id}"`,
+                        nodes,
+                    );
             }
         }, [state.visible, menuController, itemTracker]);
 
-        function checkBoundaries(x: number, y: number) {
-            if (nodeRef.current && !disableBoundariesCheck) {
-                const { innerWidth, innerHeight } = window;
-                const { offsetWidth, offsetHeight } = nodeRef.current;
+        // hiding is batched with a following show, only report the menu once it actually closed
+        const isOpen = useRef(false);
+        const hideReason = useRef<HideReason>("hide-all");
+        const previousFocus = useRef<HTMLElement | null>(null);
+        useEffect(() => {
+            if (state.visible && !state.willLeave) {
+                isOpen.current = true;
+            } else if (isOpen.current) {
+                isOpen.current = false;
+
+                // an outside click already moved the focus where the user wanted it
+                if (restoreFocus && hideReason.current !== "outside-click")
+                    focusPreviousElement();
+                previousFocus.current = null;
 
-                if (x + offsetWidth > innerWidth)
-                    x -= x + offsetWidth - innerWidth;
-                if (y + offsetHeight > innerHeight)
-                    y -= y + offsetHeight - innerHeight;
+                eventManager.emit<MenuHiddenParams>(EVENT.MENU_HIDDEN, {
+                    id,
+                    reason: hideReason.current,
+                });
             }
+        }, [state.visible, state.willLeave]);
 
-            return { x, y };
-        }
+        // unmounting an open menu closes it as well, ie: for a pending prompt
+        useEffect(
+            () => () => {
+                if (!isOpen.current) return;
 
-        useEffect(() => {
-            if (state.visible && !state.measuring)
-                setState(checkBoundaries(state.x, state.y));
-        }, [state.visible, state.measuring]);
+                isOpen.current = false;
+                eventManager.emit<MenuHiddenParams>(EVENT.MENU_HIDDEN, {
+                    id,
+                    reason: "unmount",
+                });
+            },
+            [id, eventManager],
+        );
 
+        // animate once the menu is placed
         useLayoutEffect(() => {
-            if (!state.visible || !state.measuring || !state.anchorBottom)
+            const node = nodeRef.current;
+            if (!state.visible || state.measuring || !node || !state.anchor)
                 return;
-            if (!nodeRef.current) return;
 
-            const { offsetHeight } = nodeRef.current;
-            const { x, y } = state.anchorBottom;
+            const running = animateMenu(
+                node,
+                "enter",
+                animation,
+                getAnchorRect(state.anchor),
+            );
+
+            return () => running?.cancel();
+        }, [state.visible, state.measuring]);
 
-            setState({
-                ...checkBoundaries(x, Math.max(8, y - offsetHeight)),
-                measuring: false,
+        // unmount once the exit animation ended, showing the menu again cancels it
+        useEffect(() => {
+            const node = nodeRef.current;
+            if (!state.willLeave) return;
+
+            const running =
+                node && !state.measuring && state.anchor
+                    ? animateMenu(
+                          node,
+                          "exit",
+                          animation,
+                          getAnchorRect(state.anchor),
+                      )
+                    : null;
+
+            if (!running) {
+                finishHide();
+                return;
+            }
+
+            let isCancelled = false;
+            running.finished.then(() => {
+                if (!isCancelled) finishHide();
             });
-        }, [state.visible, state.measuring, state.anchorBottom]);
+
+            return () => {
+                isCancelled = true;
+                running.cancel();
+            };
+        }, [state.willLeave]);
+
+        useEffect(() => () => removeMenu(menuStack, nodeRef), [menuStack]);
+
+        // focus once the menu is placed, a hidden element can't take it
+        useEffect(() => {
+            if (!state.visible || state.measuring || autoFocus === "none")
+                return;
+
+            const options = { preventScroll: true };
+            if (filterInput.current) filterInput.current.focus(options);
+            else if (autoFocus === "first") menuController.moveDown();
+            else nodeRef.current?.focus(options);
+        }, [state.visible, state.measuring]);
+
+        function focusPreviousElement() {
+            const node = previousFocus.current;
+            if (!node?.isConnected) return;
+
+            // leave the focus alone when something else took it meanwhile
+            const active = getActiveElement(node.ownerDocument);
+            if (!active || active === node.ownerDocument.body)
+                node.focus({ preventScroll: true });
+        }
+
+        // the filter changed the rendered items
+        useEffect(() => {
+            if (state.visible) menuController.init(itemTracker);
+        }, [filterQuery]);
+
+        // only elements can move, a point or a rect stays where it is
+        const isTrackingAnchor =
+            trackAnchor &&
+            state.anchor != null &&
+            "getBoundingClientRect" in state.anchor;
+
+        // the menu is rendered hidden first so it can be measured
+        useLayoutEffect(() => {
+            if (state.visible && state.measuring) updatePosition();
+        }, [state.visible, state.measuring]);
+
+        function updatePosition() {
+            const node = nodeRef.current;
+            if (!node || !state.anchor) return;
+
+            const checkBoundaries = !disableBoundariesCheck;
+            const { x, y } = computePosition(
+                getAnchorRect(state.anchor),
+                {
+                    x: 0,
+                    y: 0,
+                    width: node.offsetWidth,
+                    height: node.offsetHeight,
+                },
+                {
+                    placement: state.placement,
+                    boundary: resolveBoundary(boundary),
+                    ownerDocument: node.ownerDocument,
+                    middleware: [
+                        offset(offsetValue),
+                        checkBoundaries &&
+                            shouldFlip &&
+                            flip({ padding: collisionPadding }),
+                        checkBoundaries &&
+                            shouldShift &&
+                            shift({ padding: collisionPadding }),
+                    ],
+                },
+            );
+
+            setState({ x, y, measuring: false });
+        }
+
+        function setNodeRef(node: HTMLDivElement | null) {
+            nodeRef.current = node;
+
+            if (isFn(ref)) ref(node);
+            else if (ref) ref.current = node;
+        }
 
         // subscribe dom events
         useEffect(() => {
@@ -151,13 +628,57 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
             }
 
             function handleKeyboard(e: KeyboardEvent) {
+                // the menus below wait for the topmost one to close
+                if (!isTopmostOnEvent(menuStack, nodeRef, e)) return;
+
+                if (e.key === "Tab") {
+                    if (tabBehavior === "trap") {
+                        e.preventDefault();
+                        if (e.shiftKey) menuController.moveUp();
+                        else menuController.moveDown();
+                        return;
+                    }
+
+                    // the browser moves the focus on from the restored element
+                    if (restoreFocus) {
+                        previousFocus.current?.focus({ preventScroll: true });
+                        previousFocus.current = null;
+                    }
+                    hide(undefined, "tab");
+                    return;
+                }
+
+                const input = filterInput.current;
+
+                if (input && e.target === input) {
+                    switch (e.key) {
+                        case "Escape":
+                            if (input.value) {
+                                setFilterQuery("");
+                                return;
+                            }
+                            break;
+                        case "Enter":
+                            preventDefault(e);
+                            menuController.moveDown();
+                            return;
+                        case "ArrowUp":
+                        case "ArrowDown":
+                            break;
+                        default:
+                            // let the user type
+                            return;
+                    }
+                }
+
                 switch (e.key) {
                     case "Enter":
                     case " ":
-                        if (!menuController.openSubmenu()) hide();
+                        if (!menuController.openSubmenu())
+                            hide(undefined, "item");
                         break;
                     case "Escape":
-                        hide();
+                        hide(undefined, "escape");
                         break;
                     case "ArrowUp":
                         preventDefault(e);
@@ -167,82 +688,226 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
                         preventDefault(e);
                         menuController.moveDown();
                         break;
-                    case "ArrowRight":
+                    case "Home":
                         preventDefault(e);
-                        menuController.openSubmenu();
+                        menuController.moveFirst();
                         break;
+                    case "End":
+                        preventDefault(e);
+                        menuController.moveLast();
+                        break;
+                    case "PageUp":
+                        preventDefault(e);
+                        menuController.movePageUp();
+                        break;
+                    case "PageDown":
+                        preventDefault(e);
+                        menuController.movePageDown();
+                        break;
+                    // the arrows follow the reading direction
+                    case "ArrowRight":
                     case "ArrowLeft":
                         preventDefault(e);
-                        menuController.closeSubmenu();
+                        if ((e.key === "ArrowRight") === (state.dir === "ltr"))
+                            menuController.openSubmenu();
+                        else menuController.closeSubmenu();
                         break;
                     default:
                         menuController.matchKeys(e);
+                        if (e.defaultPrevented) break;
+
+                        // typing from an item goes to the filter input
+                        if (input) input.focus();
+                        else menuController.typeahead(e);
                         break;
                 }
             }
 
             function hideIfOutside(e: Event) {
-                const root = (ref as any)?.current ?? nodeRef.current;
-                const t = e.target as Node | null;
-                if (!root || !t) return;
+                const root = nodeRef.current;
+                if (!root || !e.target) return;
+
+                // the composed path sees through shadow roots, unlike contains
+                const path = e.composedPath();
+                if (path.includes(root)) return;
+
+                // using a menu opened on top of this one doesn't close it
+                if (
+                    getMenusAbove(menuStack, nodeRef).some((node) =>
+                        path.includes(node),
+                    )
+                )
+                    return;
 
-                if (root.contains(t)) return;
                 hide(e);
             }
 
-            if (state.visible) {
-                window.addEventListener("keydown", handleKeyboard);
+            const ownerWindow = getOwnerWindow(nodeRef.current);
+
+            // a tracked anchor follows the scroll and the resize instead
+            const events = isTrackingAnchor
+                ? hideOnEvents.filter(
+                      (ev) => ev !== "scroll" && ev !== "resize",
+                  )
+                : hideOnEvents;
+
+            // a leaving menu doesn't take any input
+            if (state.visible && !state.willLeave) {
+                ownerWindow.addEventListener("keydown", handleKeyboard);
 
-                for (const ev of hideOnEvents)
-                    window.addEventListener(ev, hideIfOutside);
+                for (const ev of events)
+                    ownerWindow.addEventListener(ev, hideIfOutside);
             }
 
             return () => {
-                window.removeEventListener("keydown", handleKeyboard);
+                ownerWindow.removeEventListener("keydown", handleKeyboard);
 
-                for (const ev of hideOnEvents)
-                    window.removeEventListener(ev, hideIfOutside);
+                for (const ev of events)
+                    ownerWindow.removeEventListener(ev, hideIfOutside);
             };
-        }, [state.visible, menuController, preventDefaultOnKeydown, ref]);
+        }, [
+            state.visible,
+            state.willLeave,
+            menuController,
+            preventDefaultOnKeydown,
+            hideOnEvents,
+            tabBehavior,
+            restoreFocus,
+            isTrackingAnchor,
+            state.dir,
+        ]);
+
+        // keep the menu attached to its anchor
+        useEffect(() => {
+            const anchor = state.anchor;
+            if (!state.visible || !isTrackingAnchor || !anchor) return;
+
+            const ownerWindow = getOwnerWindow(nodeRef.current);
+            let frame = 0;
+
+            function update() {
+                ownerWindow.cancelAnimationFrame(frame);
+                frame = ownerWindow.requestAnimationFrame(() => {
+                    if (isAnchorVisible(anchor!)) updatePosition();
+                    else hide(undefined, "anchor-hidden");
+                });
+            }
+
+            const observer =
+                typeof ResizeObserver === "undefined"
+                    ? null
+                    : new ResizeObserver(update);
+
+            if (anchor instanceof Element) observer?.observe(anchor);
+            if (nodeRef.current) observer?.observe(nodeRef.current);
+
+            // capture to catch the scroll of any scrollable ancestor
+            ownerWindow.addEventListener("scroll", update, {
+                capture: true,
+                passive: true,
+            });
+            ownerWindow.addEventListener("resize", update);
+
+            return () => {
+                ownerWindow.cancelAnimationFrame(frame);
+                observer?.disconnect();
+                ownerWindow.removeEventListener("scroll", update, {
+                    capture: true,
+                });
+                ownerWindow.removeEventListener("resize", update);
+            };
+        }, [state.visible, state.anchor, isTrackingAnchor]);
+
+        // match the shortcuts while the menu is hidden
+        useEffect(() => {
+            const scope = resolveShortcutScope(shortcutScope);
+            if (state.visible || !scope) return;
+
+            function handleShortcut(e: Event) {
+                if (e.defaultPrevented || isEditable(e.target)) return;
+
+                shortcutController.init(shortcutTracker);
+                shortcutController.matchKeys(e as KeyboardEvent);
+            }
+
+            scope.addEventListener("keydown", handleShortcut);
+
+            return () => {
+                scope.removeEventListener("keydown", handleShortcut);
+            };
+        }, [state.visible, shortcutScope, shortcutController, shortcutTracker]);
+
+        function setShortcutTarget({
+            id: targetId,
+            props,
+            targets,
+            event,
+        }: ShortcutTargetParams) {
+            if (targetId !== id) return;
+
+            // don't swap the props of an open menu
+            setState((s) =>
+                s.visible
+                    ? {}
+                    : {
+                          triggerEvent: event ?? ({} as TriggerEvent),
+                          propsFromTrigger: props,
+                          targets: resolveTargets(targets, props),
+                      },
+            );
+        }
 
         function show({
             event,
             props,
+            targets,
             position,
+            anchor,
             anchorBottom,
+            placement: showPlacement,
         }: ShowContextMenuParams) {
             event.stopPropagation();
 
-            if (anchorBottom) {
-                flushSync(() => {
-                    setState({
-                        visible: true,
-                        willLeave: false,
-                        x: anchorBottom.x,
-                        y: anchorBottom.y,
-                        anchorBottom,
-                        measuring: true,
-                        triggerEvent: event,
-                        propsFromTrigger: props,
-                    });
-                });
-            } else {
-                const p = position || getMousePosition(event);
-                const { x, y } = checkBoundaries(p.x, p.y);
-
-                flushSync(() => {
-                    setState({
-                        visible: true,
-                        willLeave: false,
-                        x,
-                        y,
-                        anchorBottom: null,
-                        measuring: false,
-                        triggerEvent: event,
-                        propsFromTrigger: props,
-                    });
+            // showing the menu again keeps the element focused before it first opened
+            const target = (event as Event).target as Node | null;
+            const active = getActiveElement(target?.ownerDocument ?? document);
+            if (
+                active &&
+                active !== active.ownerDocument.body &&
+                !nodeRef.current?.contains(active)
+            )
+                previousFocus.current = active as HTMLElement;
+
+            const p = position || getMousePosition(event);
+
+            flushSync(() => {
+                setFilterQuery("");
+                setState({
+                    visible: true,
+                    willLeave: false,
+                    x: p.x,
+                    y: p.y,
+                    // `anchorBottom` opens the menu above the given point
+                    anchor: anchor ?? getPointRect(anchorBottom ?? p),
+                    placement:
+                        showPlacement ??
+                        (anchorBottom ? "top-start" : placement),
+                    measuring: true,
+                    triggerEvent: event,
+                    propsFromTrigger: props,
+                    targets: resolveTargets(targets, props),
+                    layer: pushMenu(menuStack, nodeRef),
+                    dir:
+                        dir ??
+                        getDirection(
+                            anchor && "nodeType" in anchor
+                                ? anchor
+                                : target?.nodeType === Node.ELEMENT_NODE
+                                  ? (target as Element)
+                                  : null,
+                        ),
                 });
-            }
+            });
 
             clearTimeout(visibilityId.current);
             if (!wasVisible.current && isFn(onVisibilityChange)) {
@@ -251,9 +916,26 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
             }
 
             emitVisibility(id, true);
+            eventManager.emit<MenuShownParams>(EVENT.MENU_SHOWN, {
+                id,
+                x: p.x,
+                y: p.y,
+                props,
+                triggerEvent: event,
+            });
+        }
+
+        function hideAll(params?: HideAllParams) {
+            if (pinned) return;
+
+            hide(undefined, params?.reason ?? "hide-all");
         }
 
-        function hide(e?: Event) {
+        function hideById({ id: targetId }: HideMenuParams) {
+            if (targetId === id) hide(undefined, "hide");
+        }
+
+        function hide(e?: Event, reason: HideReason = getHideReason(e)) {
             type SafariEvent = KeyboardEvent & MouseEvent;
 
             if (
@@ -264,7 +946,13 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
             )
                 return;
 
-            setState((s) => ({ visible: s.visible ? false : s.visible }));
+            hideReason.current = reason;
+            removeMenu(menuStack, nodeRef);
+            setState((s) => (s.visible ? { willLeave: true } : {}));
+        }
+
+        function finishHide() {
+            setState({ visible: false, willLeave: false });
 
             visibilityId.current = window?.setTimeout(() => {
                 if (isFn(onVisibilityChange)) onVisibilityChange(false);
@@ -276,40 +964,119 @@ const Menu = forwardRef<HTMLDivElement, MenuProps>(
         const { visible, measuring, triggerEvent, propsFromTrigger, x, y } =
             state;
 
+        // react events still bubble through the portal, and submenus are rendered inside the menu so they follow it
+        function renderInPortal(menu: ReactNode) {
+            if (!portal && !container) return menu;
+
+            const target = resolveContainer(container, triggerEvent);
+            const styleCache = getStyleCache(target);
+
+            return createPortal(
+                styleCache ? (
+                    <CacheProvider value={styleCache}>{menu}</CacheProvider>
+                ) : (
+                    menu
+                ),
+                target,
+            );
+        }
+        const renderItems = () =>
+            cloneItems([items && renderMenuItems(items), children], {
+                propsFromTrigger,
+                triggerEvent,
+            });
+        // a virtualized menu only keeps the rows bound to a shortcut mounted while hidden
+        const renderShortcutItems = () =>
+            virtualized
+                ? renderItems()?.filter(
+                      ({ props }) =>
+                          props.shortcut || props.keyMatcher || props.command,
+                  )
+                : renderItems();
+
         return (
-            <ItemTrackerProvider value={itemTracker}>
-                {visible && (
-                    <Paper
-                        position="fixed"
-                        direction="column"
-                        spacing={1}
-                        color={color}
-                        css={{
-                            left: x,
-                            top: y,
-                            opacity: 1,
-                            visibility: measuring ? "hidden" : "visible",
-                            userSelect: "none",
-                            ...style,
-                        }}
-                        elevation={7}
-                        boxShadow={2}
-                        borderRadius={8}
-                        minWidth="10rem"
-                        boxSizing="border-box"
-                        zIndex={theme.zIndex.tooltip}
-                        padding={2}
-                        ref={ref ?? nodeRef}
-                        role="menu"
-                        {...rest}
-                    >
-                        {cloneItems(children, {
-                            propsFromTrigger,
-                            triggerEvent,
-                        })}
-                    </Paper>
+            <MenuProvider value={menuContext}>
+                <ItemTrackerProvider value={itemTracker}>
+                    {visible &&
+                        renderInPortal(
+                            <Paper
+                                position="fixed"
+                                direction="column"
+                                spacing={1}
+                                color={color}
+                                css={{
+                                    left: x,
+                                    top: y,
+                                    opacity: 1,
+                                    visibility: measuring
+                                        ? "hidden"
+                                        : "visible",
+                                    userSelect: "none",
+                                    outline: "none",
+                                    pointerEvents: state.willLeave
+                                        ? "none"
+                                        : undefined,
+                                    ...style,
+                                }}
+                                elevation={7}
+                                boxShadow={2}
+                                borderRadius={8}
+                                minWidth="10rem"
+                                boxSizing="border-box"
+                                zIndex={theme.zIndex.tooltip + state.layer}
+                                padding={2}
+                                ref={setNodeRef}
+                                id={getMenuElementId(id)}
+                                role="menu"
+                                aria-orientation="vertical"
+                                dir={state.dir}
+                                tabIndex={-1}
+                                {...rest}
+                            >
+                                {filterable && (
+                                    <input
+                                        ref={filterInput}
+                                        type="search"
+                                        value={filterQuery}
+                                        placeholder={filterPlaceholder}
+                                        aria-label={filterPlaceholder}
+                                        autoComplete="off"
+                                        onChange={(e) =>
+                                            setFilterQuery(e.target.value)
+                                        }
+                                        css={{
+                                            font: "inherit",
+                                            color: "inherit",
+                                            background: "transparent",
+                                            border: "none",
+                                            borderBottom:
+                                                "1px solid rgba(127, 127, 127, 0.3)",
+                                            outline: "none",
+                                            padding: "4px 8px",
+                                        }}
+                                    />
+                                )}
+                                {virtualized ? (
+                                    <VirtualList
+                                        {...virtualized}
+                                        triggerEvent={triggerEvent}
+                                        propsFromTrigger={propsFromTrigger}
+                                    >
+                                        {items && renderMenuItems(items)}
+                                        {children}
+                                    </VirtualList>
+                                ) : (
+                                    renderItems()
+                                )}
+                            </Paper>,
+                        )}
+                </ItemTrackerProvider>
+                {!visible && shortcutScope && (
+                    <ItemTrackerProvider value={shortcutTracker}>
+                        <div hidden>{renderShortcutItems()}</div>
+                    </ItemTrackerProvider>
                 )}
-            </ItemTrackerProvider>
+            </MenuProvider>
         );
     },
 );
@@ -0,0 +1,91 @@
+import { type FC, type HTMLAttributes, type ReactNode, useId } from "react";
+
+import type {
+    BooleanPredicate,
+    HandlerParamsEvent,
+    InternalProps,
+} from "../types";
+import {
+    cloneItems,
+    getNodeText,
+    getPredicateValue,
+    hasFilterMatch,
+} from "../utils";
+import { MenuProvider, useMenuContext } from "./MenuProvider";
+
+export interface MenuLabelProps extends HTMLAttributes<HTMLDivElement> {
+    children: ReactNode;
+}
+
+/**
+ * Non interactive header, skipped by the keyboard navigation
+ */
+export const MenuLabel: FC<MenuLabelProps> = ({ children, style, ...rest }) => (
+    <div
+        data-menu-label
+        css={{
+            padding: "4px 8px",
+            fontSize: 12,
+            fontWeight: 600,
+            opacity: 0.7,
+            ...style,
+        }}
+        {...rest}
+    >
+        {children}
+    </div>
+);
+
+export interface MenuGroupProps extends InternalProps {
+    label?: ReactNode;
+    hidden?: BooleanPredicate;
+    children: ReactNode;
+}
+
+export const MenuGroup: FC<MenuGroupProps> = ({
+    label,
+    hidden = false,
+    triggerEvent,
+    propsFromTrigger,
+    children,
+}) => {
+    const labelId = useId();
+    const menuContext = useMenuContext();
+    const { filterQuery, filter, targets } = menuContext;
+    const labelMatches =
+        !!filterQuery && filter(getNodeText(label), filterQuery);
+
+    const isHidden =
+        getPredicateValue(hidden, {
+            triggerEvent: triggerEvent as HandlerParamsEvent,
+            props: propsFromTrigger,
+            targets,
+        }) ||
+        (!!filterQuery &&
+            !labelMatches &&
+            !hasFilterMatch(children, filterQuery, filter, targets));
+
+    if (isHidden) return null;
+
+    return (
+        <div
+            role="group"
+            aria-labelledby={label != null ? labelId : undefined}
+            css={{ display: "flex", flexDirection: "column" }}
+        >
+            {label != null && <MenuLabel id={labelId}>{label}</MenuLabel>}
+            <MenuProvider
+                value={
+                    labelMatches
+                        ? { ...menuContext, filterQuery: "" }
+                        : menuContext
+                }
+            >
+                {cloneItems(children, {
+                    triggerEvent: triggerEvent!,
+                    propsFromTrigger,
+                })}
+            </MenuProvider>
+        </div>
+    );
+};
@@ -0,0 +1,99 @@
+import {
+    createContext,
+    type ReactNode,
+    type RefObject,
+    useContext,
+    useId,
+    useState,
+} from "react";
+
+import type { Boundary } from "../core";
+import type { MenuId } from "../types";
+import { defaultFilter, type Direction, type FilterFn } from "../utils";
+import type { MenuAnimation, MenuAnimationPreset } from "./animation";
+import type { SubmenuIntent } from "./safeArea";
+
+export interface MenuContextValue {
+    menuId?: MenuId;
+    /**
+     * Uncontrolled state of the items, kept while the menu is hidden
+     */
+    itemState: Map<string, unknown>;
+    /**
+     * The items are mounted while the menu is hidden so their shortcuts stay active
+     */
+    dormant: boolean;
+    /**
+     * Query typed in the filter input, empty when the menu isn't filtered
+     */
+    filterQuery: string;
+    filter: FilterFn;
+    /**
+     * Collision boundary of the menu, shared with the submenus
+     */
+    boundary?: Boundary | RefObject<Element | null>;
+    collisionPadding: number;
+    dir: Direction;
+    /**
+     * Delays before a submenu opens and closes on hover, in ms
+     */
+    submenuOpenDelay: number;
+    submenuCloseDelay: number;
+    submenuIntent: SubmenuIntent;
+    /**
+     * Items loaded by the async submenus, by submenu then by trigger. Kept while the menu is hidden
+     */
+    submenuCache: Map<string, WeakMap<object, ReactNode>>;
+    animation: MenuAnimationPreset | MenuAnimation | false;
+    /**
+     * What the menu was opened for, see `ShowContextMenuParams.targets`
+     */
+    targets: unknown[];
+}
+
+export const SUBMENU_CLOSE_DELAY_MS = 140;
+
+const Context = createContext<MenuContextValue>({
+    itemState: new Map(),
+    dormant: false,
+    filterQuery: "",
+    filter: defaultFilter,
+    collisionPadding: 0,
+    dir: "ltr",
+    submenuOpenDelay: 0,
+    submenuCloseDelay: SUBMENU_CLOSE_DELAY_MS,
+    submenuIntent: { current: null },
+    submenuCache: new Map(),
+    animation: false,
+    targets: [],
+});
+
+export const MenuProvider = Context.Provider;
+
+export const useMenuContext = () => useContext(Context);
+
+/**
+ * Same as `useState` but the value is ignored when the item is controlled and it survives the menu being hidden
+ */
+export function useMenuItemState<T>(
+    id: string | undefined,
+    value: T | undefined,
+    defaultValue: T,
+) {
+    const { itemState } = useMenuContext();
+    const fallbackId = useId();
+    const key = id ?? fallbackId;
+    const [uncontrolled, setUncontrolled] = useState(() =>
+        itemState.has(key) ? (itemState.get(key) as T) : defaultValue,
+    );
+    const isControlled = value !== undefined;
+
+    function setValue(next: T) {
+        if (isControlled) return;
+
+        itemState.set(key, next);
+        setUncontrolled(next);
+    }
+
+    return [isControlled ? value : uncontrolled, setValue] as const;
+}
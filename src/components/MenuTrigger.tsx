@@ -0,0 +1,64 @@
+import {
+    Children,
+    cloneElement,
+    type ReactElement,
+    type Ref,
+    type SyntheticEvent,
+} from "react";
+
+import { useMenuTrigger, type UseMenuTriggerParams } from "../hooks";
+import { isFn } from "../utils";
+
+export interface MenuTriggerProps<
+    TProps = unknown,
+> extends UseMenuTriggerParams<TProps> {
+    /**
+     * Single element receiving the handlers and the ARIA attributes, its own handlers still run first
+     */
+    children: ReactElement<any>;
+}
+
+type Handler = (e: SyntheticEvent<HTMLElement>) => void;
+
+/**
+ * Open a menu from its child, see `useMenuTrigger`
+ *
+ * ```
+ * <MenuTrigger id="menu" triggerOn={["contextmenu", "click"]}>
+ *   <button>Options</button>
+ * </MenuTrigger>
+ * ```
+ */
+export function MenuTrigger<TProps>({
+    children,
+    ...params
+}: MenuTriggerProps<TProps>) {
+    const { ref, style, ...trigger } = useMenuTrigger(params);
+    const child = Children.only(children);
+    const childProps = child.props as Record<string, unknown>;
+    const handlers: Record<string, Handler> = {};
+
+    for (const [key, handler] of Object.entries(trigger)) {
+        if (!isFn(handler)) continue;
+
+        const childHandler = childProps[key] as Handler | undefined;
+        handlers[key] = (e) => {
+            childHandler?.(e);
+            (handler as Handler)(e);
+        };
+    }
+
+    const childRef = childProps.ref as Ref<HTMLElement> | undefined;
+
+    return cloneElement(child, {
+        ...trigger,
+        ...handlers,
+        style: { ...style, ...(childProps.style as object) },
+        ref(node: HTMLElement | null) {
+            ref(node);
+
+            if (isFn(childRef)) childRef(node);
+            else if (childRef) childRef.current = node;
+        },
+    });
+}
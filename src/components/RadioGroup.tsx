@@ -0,0 +1,105 @@
+import { createContext, type FC, type ReactNode, useContext } from "react";
+
+import type { BooleanPredicate, InternalProps, ItemParams } from "../types";
+import { Item, type ItemProps } from "./Item";
+import { ItemIndicator } from "./ItemIndicator";
+import { MenuGroup } from "./MenuGroup";
+import { useMenuItemState } from "./MenuProvider";
+
+interface RadioGroupContextValue {
+    value?: string;
+    closeOnClick: boolean;
+    select: (value: string, args: ItemParams) => void;
+}
+
+const RadioGroupContext = createContext<RadioGroupContextValue | null>(null);
+
+export interface RadioGroupProps<Props = any> extends InternalProps {
+    id?: string;
+    label?: ReactNode;
+    /**
+     * Controlled value. Leave undefined to let the group manage its own state
+     */
+    value?: string;
+    defaultValue?: string;
+    onValueChange?: (value: string, args: ItemParams<Props>) => void;
+    hidden?: BooleanPredicate<Props>;
+    closeOnClick?: boolean;
+    children: ReactNode;
+}
+
+export const RadioGroup: FC<RadioGroupProps> = ({
+    id,
+    label,
+    value,
+    defaultValue,
+    onValueChange,
+    hidden,
+    closeOnClick = false,
+    triggerEvent,
+    propsFromTrigger,
+    children,
+}) => {
+    const [selected, setSelected] = useMenuItemState(id, value, defaultValue);
+
+    function select(next: string, args: ItemParams) {
+        setSelected(next);
+        onValueChange?.(next, args);
+    }
+
+    return (
+        <RadioGroupContext.Provider
+            value={{ value: selected, closeOnClick, select }}
+        >
+            <MenuGroup
+                label={label}
+                hidden={hidden}
+                triggerEvent={triggerEvent}
+                propsFromTrigger={propsFromTrigger}
+            >
+                {children}
+            </MenuGroup>
+        </RadioGroupContext.Provider>
+    );
+};
+
+export interface RadioItemProps extends Omit<ItemProps, "onClick"> {
+    value: string;
+    indicator?: ReactNode;
+}
+
+export const RadioItem: FC<RadioItemProps> = ({
+    value,
+    indicator,
+    closeOnClick,
+    children,
+    ...rest
+}) => {
+    const group = useContext(RadioGroupContext);
+
+    if (!group)
+        throw new Error(
+            "[Contexify] RadioItem must be used within a RadioGroup",
+        );
+
+    const isChecked = group.value === value;
+
+    return (
+        <Item
+            role="menuitemradio"
+            aria-checked={isChecked}
+            closeOnClick={closeOnClick ?? group.closeOnClick}
+            onClick={(args) => group.select(value, args)}
+            startDecorator={
+                indicator === undefined ? (
+                    <ItemIndicator type="radio" checked={isChecked} />
+                ) : (
+                    isChecked && indicator
+                )
+            }
+            {...rest}
+        >
+            {children}
+        </Item>
+    );
+};
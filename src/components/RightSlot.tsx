@@ -0,0 +1,29 @@
+import type { FC, HTMLAttributes, ReactNode } from "react";
+
+export interface RightSlotProps extends HTMLAttributes<HTMLSpanElement> {
+    children: ReactNode;
+}
+
+/**
+ * Hint aligned to the end of the item, usually a keyboard shortcut
+ *
+ * ```
+ * <Item endDecorator={<RightSlot>Ctrl+C</RightSlot>}>Copy</Item>
+ * ```
+ */
+export const RightSlot: FC<RightSlotProps> = ({ children, style, ...rest }) => (
+    <span
+        data-menu-right-slot
+        css={{
+            marginInlineStart: "auto",
+            paddingInlineStart: 16,
+            fontSize: "0.85em",
+            opacity: 0.6,
+            whiteSpace: "nowrap",
+            ...style,
+        }}
+        {...rest}
+    >
+        {children}
+    </span>
+);
@@ -0,0 +1,46 @@
+import type { FC } from "react";
+
+import type {
+    BooleanPredicate,
+    HandlerParamsEvent,
+    InternalProps,
+} from "../types";
+import { getPredicateValue } from "../utils";
+import { useMenuContext } from "./MenuProvider";
+
+export interface SeparatorProps extends InternalProps {
+    hidden?: BooleanPredicate;
+}
+
+export const Separator: FC<SeparatorProps> = ({
+    hidden = false,
+    triggerEvent,
+    propsFromTrigger,
+}) => {
+    const { filterQuery, targets } = useMenuContext();
+
+    // separators make no sense between filtered items
+    const isHidden =
+        !!filterQuery ||
+        getPredicateValue(hidden, {
+            triggerEvent: triggerEvent as HandlerParamsEvent,
+            props: propsFromTrigger,
+            targets,
+        });
+
+    if (isHidden) return null;
+
+    return (
+        <div
+            role="separator"
+            aria-orientation="horizontal"
+            data-menu-separator
+            css={{
+                height: 1,
+                margin: "4px 0",
+                background: "currentColor",
+                opacity: 0.15,
+            }}
+        />
+    );
+};
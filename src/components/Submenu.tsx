@@ -1,52 +1,145 @@
 import {
     type FC,
+    isValidElement,
     type MouseEvent,
+    type PointerEvent,
     type ReactNode,
     useEffect,
+    useId,
+    useLayoutEffect,
     useRef,
     useState,
 } from "react";
 
 import type { CSSObject } from "@emotion/react";
 import { Button, Paper, type PaperProps, useTheme } from "@mutualzz/ui-web";
-import { contextMenu } from "../core";
+import { flushSync } from "react-dom";
+import { EVENT } from "../constants";
+import {
+    computePosition,
+    getSide,
+    flip,
+    getAnchorRect,
+    type HideAllParams,
+    offset,
+    shift,
+    type SubmenuToggleParams,
+} from "../core";
 import { useItemTracker } from "../hooks";
+import type { MenuItemDescriptor } from "../schema";
+import { renderMenuItems } from "../schema/render";
 import type {
+    AppliesTo,
     BooleanPredicate,
     HandlerParamsEvent,
     InternalProps,
     ItemParams,
+    TargetsRenderer,
 } from "../types";
-import { cloneItems, getPredicateValue } from "../utils";
+import {
+    cloneItems,
+    getNodeText,
+    getPredicateValue,
+    appliesToTargets,
+    hasFilterMatch,
+    isFn,
+    renderWithTargets,
+    resolveBoundary,
+} from "../utils";
+import { animateMenu } from "./animation";
 import { Arrow } from "./Arrow";
+import { useContextMenuInstance } from "./ContextMenuProvider";
+import { Item } from "./Item";
 import {
     ItemTrackerProvider,
     useItemTrackerContext,
 } from "./ItemTrackerProvider";
+import { MenuProvider, useMenuContext } from "./MenuProvider";
+import { createSafeArea, type SubmenuIntent } from "./safeArea";
+import { VirtualList, type VirtualizedOptions } from "./VirtualList";
 
-export interface SubMenuProps
+export interface SubMenuProps<Props = any>
     extends
         InternalProps,
         Omit<PaperProps, "hidden" | "disabled" | "style" | "onClick"> {
-    label: ReactNode;
-    children: ReactNode;
+    label: ReactNode | TargetsRenderer;
+    children?: ReactNode;
+    /**
+     * Load the items on first open, the result is cached per trigger. The signal aborts when the menu hides
+     */
+    load?: (
+        params: SubmenuLoadParams<Props>,
+    ) => Promise<MenuItemDescriptor<Props>[] | ReactNode>;
+    /**
+     * Reuse the loaded items the next time the menu opens from the same trigger
+     */
+    cache?: boolean;
+    loadingLabel?: ReactNode;
+    emptyLabel?: ReactNode;
+    errorLabel?: ReactNode | ((error: unknown) => ReactNode);
+    retryLabel?: ReactNode;
     arrow?: ReactNode;
-    disabled?: BooleanPredicate;
-    hidden?: BooleanPredicate;
+    disabled?: BooleanPredicate<Props>;
+    hidden?: BooleanPredicate<Props>;
+    /**
+     * Hide the submenu unless the menu was opened for one target, several, or a matching selection
+     */
+    appliesTo?: AppliesTo;
     inverted?: boolean;
     style?: CSSObject;
     decorator?: ReactNode;
-    onClick?: (args: ItemParams) => void;
+    onClick?: (args: ItemParams<Props>) => void;
     closeOnClick?: boolean;
+    /**
+     * Delay before opening on hover, in ms. Defaults to the `submenuOpenDelay` of the menu
+     */
+    openDelay?: number;
+    /**
+     * Delay before closing once the pointer left, in ms. Defaults to the `submenuCloseDelay` of the menu
+     */
+    closeDelay?: number;
+    /**
+     * Render only the visible items, see the `virtualized` prop of `Menu`
+     */
+    virtualized?: VirtualizedOptions;
 }
 
-const CLOSE_DELAY_MS = 140;
+export interface SubmenuLoadParams<Props = any> {
+    props?: Props;
+    targets: unknown[];
+    triggerEvent: HandlerParamsEvent;
+    signal: AbortSignal;
+}
+
+type LoadState =
+    | { status: "idle" | "loading" }
+    | { status: "loaded"; content: ReactNode }
+    | { status: "error"; error: unknown };
+
+// the trigger of a menu shown without event nor props
+const NO_TRIGGER = {};
+
+const isObject = (value: unknown): value is object =>
+    typeof value === "object" && value !== null;
+
+const isDescriptorList = (value: unknown): value is MenuItemDescriptor[] =>
+    Array.isArray(value) &&
+    value.every((item) => isObject(item) && !isValidElement(item));
+
+const isEmptyContent = (content: ReactNode) =>
+    content == null ||
+    typeof content === "boolean" ||
+    (Array.isArray(content) && content.length === 0);
+
+// how often a hovered submenu checks whether the pointer gave up on its sibling
+const INTENT_RECHECK_MS = 50;
 
 export const Submenu: FC<SubMenuProps> = ({
     arrow,
     children,
     disabled = false,
     hidden = false,
+    appliesTo,
     label,
     color,
     triggerEvent,
@@ -57,6 +150,16 @@ export const Submenu: FC<SubMenuProps> = ({
     textColor,
     onClick,
     closeOnClick = true,
+    openDelay,
+    closeDelay,
+    load,
+    cache = true,
+    loadingLabel = "Loading…",
+    emptyLabel = "No items",
+    errorLabel = "Couldn't load the items",
+    retryLabel = "Retry",
+    virtualized,
+    id,
     ...rest
 }) => {
     const { theme } = useTheme();
@@ -64,71 +167,349 @@ export const Submenu: FC<SubMenuProps> = ({
     const parentItemTracker = useItemTrackerContext();
     const itemTracker = useItemTracker();
     const submenuNode = useRef<HTMLDivElement>(null);
+    const triggerNode = useRef<HTMLElement>(null);
 
+    const menuContext = useMenuContext();
     const handlerParams = {
         triggerEvent: triggerEvent as HandlerParamsEvent,
         props: propsFromTrigger,
+        targets: menuContext.targets,
     };
 
     const isDisabled = getPredicateValue(disabled, handlerParams);
-    const isHidden = getPredicateValue(hidden, handlerParams);
+    const { eventManager } = useContextMenuInstance();
+    const {
+        filterQuery,
+        filter,
+        boundary,
+        collisionPadding,
+        dir,
+        submenuIntent,
+        submenuOpenDelay,
+        submenuCloseDelay,
+        animation,
+    } = menuContext;
+    // `inverted` opens the submenu on the side the text starts from
+    const opensLeft = !!inverted !== (dir === "rtl");
+    // the side it was placed on, flipped when there is no room
+    const isPlacedLeft = useRef(opensLeft);
+    const labelContent = renderWithTargets(label, menuContext.targets);
+    const labelText = getNodeText(labelContent);
+    // every item is kept when the label itself matches the filter
+    const labelMatches = !!filterQuery && filter(labelText, filterQuery);
+
+    const { submenuCache } = menuContext;
+    const cacheId = useId();
+    const cacheKey = id ?? cacheId;
+    const target = (triggerEvent as Event | undefined)?.target;
+    // the element the menu was opened from, the props otherwise
+    const triggerKey = isObject(target)
+        ? target
+        : isObject(propsFromTrigger)
+          ? propsFromTrigger
+          : NO_TRIGGER;
+    const [loadState, setLoadState] = useState<LoadState>(() => {
+        const cached = cache
+            ? submenuCache.get(cacheKey)?.get(triggerKey)
+            : undefined;
+
+        return cached === undefined
+            ? { status: "idle" }
+            : { status: "loaded", content: cached };
+    });
+    const loadController = useRef<AbortController>(null);
+    const items =
+        load && loadState.status === "loaded" ? loadState.content : children;
+
+    const isHidden =
+        getPredicateValue(hidden, handlerParams) ||
+        !appliesToTargets(appliesTo, menuContext.targets) ||
+        (!!filterQuery &&
+            !labelMatches &&
+            !hasFilterMatch(
+                items,
+                filterQuery,
+                filter,
+                menuContext.targets,
+            ));
+
+    function startLoading() {
+        if (!load) return;
+
+        loadController.current?.abort();
+        const controller = new AbortController();
+        loadController.current = controller;
+        setLoadState({ status: "loading" });
+
+        load({ ...handlerParams, signal: controller.signal }).then(
+            (result) => {
+                if (controller.signal.aborted) return;
+
+                const content = isDescriptorList(result)
+                    ? renderMenuItems(result)
+                    : result;
+
+                if (cache) {
+                    if (!submenuCache.has(cacheKey))
+                        submenuCache.set(cacheKey, new WeakMap());
+                    submenuCache.get(cacheKey)!.set(triggerKey, content);
+                }
+
+                setLoadState({ status: "loaded", content });
+            },
+            (error: unknown) => {
+                if (controller.signal.aborted) return;
 
+                setLoadState({ status: "error", error });
+            },
+        );
+    }
+
+    function renderLoadState() {
+        switch (loadState.status) {
+            case "idle":
+                return null;
+            case "loading":
+                return (
+                    <Item disabled aria-busy>
+                        {loadingLabel}
+                    </Item>
+                );
+            case "error":
+                return (
+                    <>
+                        <Item disabled>
+                            {isFn(errorLabel)
+                                ? errorLabel(loadState.error)
+                                : errorLabel}
+                        </Item>
+                        <Item
+                            isInternal
+                            closeOnClick={false}
+                            onClick={startLoading}
+                        >
+                            {retryLabel}
+                        </Item>
+                    </>
+                );
+            case "loaded":
+                return isEmptyContent(loadState.content) ? (
+                    <Item disabled>{emptyLabel}</Item>
+                ) : (
+                    loadState.content
+                );
+        }
+    }
+
+    const labelId = useId();
+    const submenuId = useId();
     const closeTimer = useRef<number | null>(null);
+    const openTimer = useRef<number | null>(null);
+    const isHovered = useRef(false);
+    const stopIntent = useRef<(() => void) | null>(null);
+    const [childIntent] = useState<SubmenuIntent>(() => ({ current: null }));
     const [open, setOpen] = useState(false);
 
-    function clearCloseTimer() {
+    function clearTimers() {
         if (closeTimer.current != null) {
             window.clearTimeout(closeTimer.current);
             closeTimer.current = null;
         }
+
+        if (openTimer.current != null) {
+            window.clearTimeout(openTimer.current);
+            openTimer.current = null;
+        }
     }
 
     function scheduleClose() {
-        clearCloseTimer();
+        clearTimers();
         closeTimer.current = window.setTimeout(() => {
+            stopIntent.current?.();
             setOpen(false);
             closeTimer.current = null;
-        }, CLOSE_DELAY_MS);
+        }, closeDelay ?? submenuCloseDelay);
+    }
+
+    // the pointer is on its way to a sibling submenu
+    const isBlocked = () =>
+        submenuIntent.current != null &&
+        submenuIntent.current.owner !== triggerNode;
+
+    function scheduleOpen() {
+        clearTimers();
+        openTimer.current = window.setTimeout(
+            () => {
+                openTimer.current = null;
+                if (!isHovered.current) return;
+
+                if (isBlocked()) {
+                    scheduleOpen();
+                } else {
+                    setPosition();
+                    setOpen(true);
+                }
+            },
+            isBlocked() ? INTENT_RECHECK_MS : (openDelay ?? submenuOpenDelay),
+        );
+    }
+
+    function handlePointerEnter() {
+        if (isDisabled) return;
+
+        // back on the trigger, or in the submenu which is rendered inside it
+        isHovered.current = true;
+        stopIntent.current?.();
+        clearTimers();
+        if (open) return;
+
+        if (isBlocked() || (openDelay ?? submenuOpenDelay) > 0) {
+            scheduleOpen();
+        } else {
+            setPosition();
+            setOpen(true);
+        }
+    }
+
+    function handlePointerLeave(e: PointerEvent<HTMLElement>) {
+        if (isDisabled) return;
+
+        isHovered.current = false;
+        clearTimers();
+        if (!open || !submenuNode.current) return;
+
+        // keep the submenu while the pointer heads to it, even across the siblings
+        const area = createSafeArea(
+            triggerNode,
+            { x: e.clientX, y: e.clientY },
+            submenuNode.current.getBoundingClientRect(),
+            isPlacedLeft.current,
+        );
+        const doc = e.currentTarget.ownerDocument;
+
+        function handlePointerMove(move: globalThis.PointerEvent) {
+            if (!area.contains({ x: move.clientX, y: move.clientY }))
+                stopIntent.current?.();
+
+            // closes once the pointer rests
+            scheduleClose();
+        }
+
+        stopIntent.current?.();
+        submenuIntent.current = area;
+        doc.addEventListener("pointermove", handlePointerMove);
+        stopIntent.current = () => {
+            doc.removeEventListener("pointermove", handlePointerMove);
+            if (submenuIntent.current === area) submenuIntent.current = null;
+            stopIntent.current = null;
+        };
+
+        scheduleClose();
     }
 
     useEffect(() => {
-        return () => clearCloseTimer();
+        return () => {
+            clearTimers();
+            stopIntent.current?.();
+        };
     }, []);
 
-    function setPosition() {
+    useEffect(() => {
+        const node = triggerNode.current;
+        if (!open || !node) return;
+
+        const params: SubmenuToggleParams = {
+            menuId: menuContext.menuId,
+            id,
+            label: labelText,
+            node,
+        };
+        eventManager.emit(EVENT.SUBMENU_OPENED, params);
+
+        // also runs when the submenu is unmounted with its menu
+        return () => {
+            eventManager.emit(EVENT.SUBMENU_CLOSED, params);
+        };
+    }, [open]);
+
+    // grow from the trigger, closing stays instant like the native menus
+    useLayoutEffect(() => {
         const node = submenuNode.current;
-        if (!node) return;
+        if (!open || !node || !triggerNode.current) return;
 
-        const sidePadding = `calc(100% + ${theme.spacing(3)})`;
-        const negativePadding = `calc(-1 * ${theme.spacing(2)})`;
+        const running = animateMenu(
+            node,
+            "enter",
+            animation,
+            getAnchorRect(triggerNode.current),
+        );
 
-        node.style.top = negativePadding;
-        node.style.left = sidePadding;
-        node.style.bottom = "unset";
-        node.style.right = "unset";
+        return () => running?.cancel();
+    }, [open]);
 
-        const rect = node.getBoundingClientRect();
+    useEffect(() => {
+        if (open && loadState.status === "idle") startLoading();
+    }, [open]);
 
-        const vw = document.documentElement.clientWidth;
-        const vh = document.documentElement.clientHeight;
+    // the menu is hiding
+    useEffect(() => () => loadController.current?.abort(), []);
 
-        if (rect.right > vw && rect.width < rect.left) {
-            node.style.right = sidePadding;
-            node.style.left = "unset";
-        }
+    function setSubmenuOpen(next: boolean) {
+        clearTimers();
+        if (next) setPosition();
 
-        if (rect.bottom > vh && rect.height < rect.top) {
-            node.style.top = "unset";
-            node.style.bottom = negativePadding;
-        }
+        // the keyboard moves the focus in the submenu right after
+        flushSync(() => setOpen(next));
+    }
+
+    function setPosition() {
+        const node = submenuNode.current;
+        const trigger = triggerNode.current;
+        if (!node || !trigger) return;
+
+        // line up the first item with the trigger and clear the parent padding
+        const padding = parseFloat(getComputedStyle(node).paddingTop) || 0;
+        const reference = getAnchorRect(trigger);
+        const { x, y, placement } = computePosition(
+            reference,
+            {
+                x: 0,
+                y: 0,
+                width: node.offsetWidth,
+                height: node.offsetHeight,
+            },
+            {
+                placement: opensLeft ? "left-start" : "right-start",
+                boundary: resolveBoundary(boundary),
+                ownerDocument: node.ownerDocument,
+                middleware: [
+                    offset({ mainAxis: padding * 1.5, crossAxis: -padding }),
+                    flip({ padding: collisionPadding }),
+                    shift({ padding: collisionPadding }),
+                ],
+            },
+        );
+
+        isPlacedLeft.current = getSide(placement) === "left";
+
+        // the submenu is absolutely positioned inside the trigger
+        node.style.left = `${x - reference.x}px`;
+        node.style.top = `${y - reference.y}px`;
+        node.style.right = "unset";
+        node.style.bottom = "unset";
     }
 
     function trackRef(node: HTMLElement | null) {
+        if (triggerNode.current) parentItemTracker.delete(triggerNode.current);
+
         if (node && !isDisabled) {
+            triggerNode.current = node;
             parentItemTracker.set(node, {
                 node,
                 isSubmenu: true,
                 submenuRefTracker: itemTracker,
+                textValue: labelText || undefined,
+                setSubmenuOpen,
                 setSubmenuPosition: setPosition,
             });
         }
@@ -144,7 +525,7 @@ export const Submenu: FC<SubMenuProps> = ({
         } as ItemParams);
 
         if (closeOnClick) {
-            contextMenu.hideAll();
+            eventManager.emit<HideAllParams>(EVENT.HIDE_ALL, { reason: "item" });
         }
     }
 
@@ -157,25 +538,20 @@ export const Submenu: FC<SubMenuProps> = ({
                 position="relative"
                 tabIndex={-1}
                 role="menuitem"
-                aria-haspopup
+                aria-haspopup="menu"
+                aria-expanded={open}
+                aria-controls={open ? submenuId : undefined}
                 aria-disabled={isDisabled}
                 variant="plain"
-                onPointerEnter={() => {
-                    if (isDisabled) return;
-                    clearCloseTimer();
-                    setPosition();
-                    setOpen(true);
-                }}
-                onPointerLeave={() => {
-                    if (isDisabled) return;
-                    scheduleClose();
-                }}
+                onPointerEnter={handlePointerEnter}
+                onPointerLeave={handlePointerLeave}
                 onTouchStart={() => {
                     if (isDisabled) return;
-                    clearCloseTimer();
+                    clearTimers();
                     setPosition();
                     setOpen(true);
                 }}
+                id={id}
                 {...rest}
             >
                 <Button
@@ -186,18 +562,20 @@ export const Submenu: FC<SubMenuProps> = ({
                     disabled={isDisabled}
                     horizontalAlign="left"
                     size="sm"
+                    id={labelId}
+                    tabIndex={-1}
                     onClick={onClick ? handleButtonClick : undefined}
                     css={{ width: "100%", borderRadius: 6 }}
                     startDecorator={
                         decorator
                             ? decorator
                             : inverted
-                              ? (arrow ?? <Arrow inverted />)
+                              ? (arrow ?? <Arrow inverted={opensLeft} />)
                               : undefined
                     }
-                    endDecorator={arrow ?? <Arrow />}
+                    endDecorator={arrow ?? <Arrow inverted={dir === "rtl"} />}
                 >
-                    {label}
+                    {labelContent}
                 </Button>
 
                 <Paper
@@ -205,6 +583,8 @@ export const Submenu: FC<SubMenuProps> = ({
                     spacing={1}
                     ref={submenuNode}
                     role="menu"
+                    aria-orientation="vertical"
+                    aria-labelledby={labelId}
                     tabIndex={-1}
                     elevation={5}
                     boxShadow={2}
@@ -216,19 +596,37 @@ export const Submenu: FC<SubMenuProps> = ({
                     direction="column"
                     padding={2}
                     css={{
-                        transition: "opacity .12s",
                         opacity: open ? 1 : 0,
                         visibility: open ? "visible" : "hidden",
                         pointerEvents: open ? "auto" : "none",
                         ...style,
                     }}
                     {...rest}
+                    id={submenuId}
                 >
-                    {cloneItems(children, {
-                        propsFromTrigger,
-                        // @ts-expect-error injected by parent
-                        triggerEvent,
-                    })}
+                    <MenuProvider
+                        value={{
+                            ...menuContext,
+                            submenuIntent: childIntent,
+                            ...(labelMatches && { filterQuery: "" }),
+                        }}
+                    >
+                        {virtualized ? (
+                            <VirtualList
+                                {...virtualized}
+                                triggerEvent={triggerEvent}
+                                propsFromTrigger={propsFromTrigger}
+                            >
+                                {load ? renderLoadState() : children}
+                            </VirtualList>
+                        ) : (
+                            cloneItems(load ? renderLoadState() : children, {
+                                propsFromTrigger,
+                                // @ts-expect-error injected by parent
+                                triggerEvent,
+                            })
+                        )}
+                    </MenuProvider>
                 </Paper>
             </Paper>
         </ItemTrackerProvider>
@@ -0,0 +1,236 @@
+import {
+    Children,
+    type FC,
+    isValidElement,
+    type ReactNode,
+    useEffect,
+    useLayoutEffect,
+    useRef,
+    useState,
+} from "react";
+import { flushSync } from "react-dom";
+
+import type { ItemTracker } from "../hooks";
+import type { HandlerParamsEvent, InternalProps, TriggerEvent } from "../types";
+import {
+    appliesToTargets,
+    cloneItems,
+    getNodeText,
+    getPredicateValue,
+    hasFilterMatch,
+    renderWithTargets,
+    warnInDev,
+} from "../utils";
+import { useItemTrackerContext } from "./ItemTrackerProvider";
+import { MenuGroup, MenuLabel } from "./MenuGroup";
+import { useMenuContext } from "./MenuProvider";
+import { Separator } from "./Separator";
+import { Submenu } from "./Submenu";
+
+export interface VirtualizedOptions {
+    /**
+     * Height of every row in px, the spacing between the items included
+     */
+    itemHeight: number;
+    /**
+     * Height of the scroll container in px. Defaults to 320
+     */
+    maxHeight?: number;
+    /**
+     * Rows rendered above and below the visible ones. Defaults to 4
+     */
+    overscan?: number;
+}
+
+/**
+ * Rows of a virtualized menu, used by the keyboard controller to reach the ones that aren't mounted
+ */
+export interface VirtualListHandle {
+    count: number;
+    /**
+     * Whether the row is an enabled item, read from its element without rendering it
+     */
+    isFocusable: (index: number) => boolean;
+    /**
+     * Scroll the row into view and render it right away
+     */
+    mountRow: (index: number) => HTMLElement | null;
+    indexOf: (node: HTMLElement) => number;
+    getText: (index: number) => string;
+}
+
+interface VirtualListProps extends VirtualizedOptions, InternalProps {
+    children: ReactNode;
+}
+
+const DEFAULT_MAX_HEIGHT_PX = 320;
+const DEFAULT_OVERSCAN = 4;
+
+// rows that are never focused
+const structuralRows: unknown[] = [Separator, MenuGroup, MenuLabel];
+
+const virtualLists = new WeakMap<ItemTracker, VirtualListHandle>();
+
+/**
+ * Virtualized list rendered in the menu of the tracker, if any
+ */
+export const getVirtualList = (tracker: ItemTracker) =>
+    virtualLists.get(tracker);
+
+/**
+ * Render only the visible rows of a menu, every direct child is a row of `itemHeight`
+ */
+export const VirtualList: FC<VirtualListProps> = ({
+    children,
+    itemHeight,
+    maxHeight = DEFAULT_MAX_HEIGHT_PX,
+    overscan = DEFAULT_OVERSCAN,
+    triggerEvent,
+    propsFromTrigger,
+}) => {
+    const itemTracker = useItemTrackerContext();
+    const { filterQuery, filter, targets } = useMenuContext();
+    const scrollNode = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+
+    const getPredicateParams = ({ id, data }: Record<string, any>) => ({
+        id,
+        data,
+        triggerEvent: triggerEvent as HandlerParamsEvent,
+        props: propsFromTrigger,
+        targets,
+    });
+
+    const elements = Children.toArray(children).filter(
+        isValidElement<Record<string, any>>,
+    );
+    // the scroll container would clip their panel
+    const hasSubmenus = elements.some(({ type }) => type === Submenu);
+
+    // the rows hidden by the filter or their predicate would leave a gap
+    const rows = elements.filter((child) => {
+        if (child.type === Submenu) return false;
+
+        const { hidden = false, appliesTo } = child.props;
+
+        return !(
+            getPredicateValue(hidden, getPredicateParams(child.props)) ||
+            !appliesToTargets(appliesTo, targets) ||
+            (!!filterQuery &&
+                !hasFilterMatch(child, filterQuery, filter, targets))
+        );
+    });
+
+    const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+    const end = Math.min(
+        rows.length,
+        Math.ceil((scrollTop + maxHeight) / itemHeight) + overscan,
+    );
+
+    const handle: VirtualListHandle = {
+        count: rows.length,
+        isFocusable(index) {
+            const row = rows[index];
+            if (!row || structuralRows.includes(row.type)) return false;
+
+            const { disabled = false } = row.props;
+
+            return !getPredicateValue(disabled, getPredicateParams(row.props));
+        },
+        mountRow(index) {
+            const node = scrollNode.current;
+            if (!node || index < 0 || index >= rows.length) return null;
+
+            const top = index * itemHeight;
+            const selector = `[data-virtual-index="${index}"]`;
+            const isInView =
+                top >= node.scrollTop &&
+                top + itemHeight <= node.scrollTop + node.clientHeight;
+
+            // only render again when the row has to scroll into view
+            if (!isInView || !node.querySelector(selector)) {
+                if (top < node.scrollTop) node.scrollTop = top;
+                else if (top + itemHeight > node.scrollTop + node.clientHeight)
+                    node.scrollTop = top + itemHeight - node.clientHeight;
+
+                flushSync(() => setScrollTop(node.scrollTop));
+            }
+
+            return node.querySelector<HTMLElement>(selector);
+        },
+        indexOf(node) {
+            const row = node.closest<HTMLElement>("[data-virtual-index]");
+
+            return row && scrollNode.current?.contains(row)
+                ? Number(row.dataset.virtualIndex)
+                : -1;
+        },
+        getText(index) {
+            const { textValue, label, children: content } = rows[index].props;
+
+            return (
+                textValue ??
+                getNodeText(renderWithTargets(label ?? content, targets))
+            );
+        },
+    };
+
+    useLayoutEffect(() => {
+        virtualLists.set(itemTracker, handle);
+    });
+
+    useLayoutEffect(() => () => void virtualLists.delete(itemTracker), []);
+
+    useEffect(() => {
+        if (hasSubmenus)
+            warnInDev(
+                "Submenus can't be rows of a virtualized menu, they are not rendered",
+            );
+    }, [hasSubmenus]);
+
+    // the filter changed, the rows moved
+    useLayoutEffect(() => {
+        if (scrollNode.current) scrollNode.current.scrollTop = 0;
+        setScrollTop(0);
+    }, [filterQuery]);
+
+    const visibleRows = cloneItems(rows.slice(start, end), {
+        triggerEvent: triggerEvent as TriggerEvent,
+        propsFromTrigger,
+    });
+
+    return (
+        <div
+            ref={scrollNode}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            css={{
+                maxHeight,
+                overflowY: "auto",
+                overscrollBehavior: "contain",
+            }}
+        >
+            <div
+                css={{
+                    position: "relative",
+                    height: rows.length * itemHeight,
+                }}
+            >
+                {visibleRows.map((row, i) => (
+                    <div
+                        key={row.key}
+                        data-virtual-index={start + i}
+                        css={{
+                            position: "absolute",
+                            top: (start + i) * itemHeight,
+                            left: 0,
+                            right: 0,
+                            height: itemHeight,
+                        }}
+                    >
+                        {row}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
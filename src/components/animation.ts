@@ -0,0 +1,141 @@
+import { NOOP } from "../constants";
+import type { Rect } from "../core";
+import { getOwnerWindow, isFn, isStr } from "../utils";
+
+export type MenuAnimationPreset = "fade" | "scale" | "slide";
+
+export interface MenuAnimation {
+    /**
+     * Keyframes, or a class name whose CSS animation runs on the menu.
+     * Defaults to no animation
+     */
+    enter?: Keyframe[] | string;
+    exit?: Keyframe[] | string;
+    /**
+     * Duration of the keyframes in ms, a class uses the one of its CSS. Defaults to 120
+     */
+    duration?: number;
+    easing?: string;
+}
+
+export type AnimationPhase = "enter" | "exit";
+
+export interface RunningAnimation {
+    /**
+     * Resolves once the animation ends or is cancelled
+     */
+    finished: Promise<void>;
+    cancel: () => void;
+}
+
+const DEFAULT_DURATION_MS = 120;
+const SLIDE_DISTANCE_PX = 8;
+
+const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), max);
+
+function getPresetKeyframes(
+    preset: MenuAnimationPreset,
+    node: HTMLElement,
+    origin: Rect,
+): Keyframe[] {
+    const menu = node.getBoundingClientRect();
+    // the point of the anchor the menu grows from
+    const x = clamp(origin.x + origin.width / 2 - menu.x, 0, menu.width);
+    const y = clamp(origin.y + origin.height / 2 - menu.y, 0, menu.height);
+
+    switch (preset) {
+        case "fade":
+            return [{ opacity: 0 }, { opacity: 1 }];
+        case "scale":
+            return [
+                {
+                    opacity: 0,
+                    transform: "scale(0.95)",
+                    transformOrigin: `${x}px ${y}px`,
+                },
+                {
+                    opacity: 1,
+                    transform: "scale(1)",
+                    transformOrigin: `${x}px ${y}px`,
+                },
+            ];
+        case "slide": {
+            // slide away from the anchor
+            const distance =
+                y < menu.height / 2 ? -SLIDE_DISTANCE_PX : SLIDE_DISTANCE_PX;
+
+            return [
+                { opacity: 0, transform: `translateY(${distance}px)` },
+                { opacity: 1, transform: "translateY(0)" },
+            ];
+        }
+    }
+}
+
+export function prefersReducedMotion(node: Node) {
+    return !!getOwnerWindow(node).matchMedia?.(
+        "(prefers-reduced-motion: reduce)",
+    ).matches;
+}
+
+/**
+ * Run the enter or exit animation on the menu, null when there is nothing to wait for
+ */
+export function animateMenu(
+    node: HTMLElement,
+    phase: AnimationPhase,
+    animation: MenuAnimationPreset | MenuAnimation | false,
+    origin: Rect,
+): RunningAnimation | null {
+    if (!animation || prefersReducedMotion(node)) return null;
+
+    const {
+        duration = DEFAULT_DURATION_MS,
+        easing = "ease-out",
+    }: MenuAnimation = isStr(animation) ? {} : animation;
+    let effect: Keyframe[] | string | undefined;
+
+    if (isStr(animation)) {
+        const keyframes = getPresetKeyframes(animation, node, origin);
+        effect = phase === "enter" ? keyframes : [...keyframes].reverse();
+    } else {
+        effect = animation[phase];
+    }
+
+    if (!effect) return null;
+
+    if (isStr(effect)) {
+        const className = effect;
+        if (!isFn(node.getAnimations)) return null;
+
+        node.classList.add(className);
+
+        // reading the animations flushes the styles, the ones of the class are running by now
+        const running = node.getAnimations();
+        if (running.length === 0) {
+            node.classList.remove(className);
+            return null;
+        }
+
+        return {
+            finished: Promise.all(running.map(({ finished }) => finished))
+                .then(NOOP, NOOP)
+                .finally(() => node.classList.remove(className)),
+            cancel() {
+                for (const anim of running) anim.cancel();
+                node.classList.remove(className);
+            },
+        };
+    }
+
+    if (!isFn(node.animate)) return null;
+
+    // hold the last frame until the menu unmounts
+    const anim = node.animate(effect, { duration, easing, fill: "both" });
+
+    return {
+        finished: anim.finished.then(NOOP, NOOP),
+        cancel: () => anim.cancel(),
+    };
+}
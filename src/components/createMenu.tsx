@@ -0,0 +1,87 @@
+import {
+    type FC,
+    forwardRef,
+    type ForwardRefExoticComponent,
+    type RefAttributes,
+} from "react";
+
+import {
+    type ContextMenu,
+    contextMenu,
+    type PromptResult,
+    type ShowContextMenuParams,
+} from "../core";
+import type { MenuItemDescriptor } from "../schema";
+import type { MenuId, TypedMenuId } from "../types";
+import { CheckboxItem, type CheckboxItemProps } from "./CheckboxItem";
+import { Item, type ItemProps } from "./Item";
+import { Menu, type MenuProps } from "./Menu";
+import { RadioGroup, type RadioGroupProps } from "./RadioGroup";
+import { Submenu, type SubMenuProps } from "./Submenu";
+
+export interface TypedMenuProps<TProps> extends Omit<
+    MenuProps,
+    "id" | "items"
+> {
+    items?: MenuItemDescriptor<TProps>[];
+}
+
+export interface TypedMenu<TProps> {
+    id: TypedMenuId<TProps>;
+    Menu: ForwardRefExoticComponent<
+        TypedMenuProps<TProps> & RefAttributes<HTMLDivElement>
+    >;
+    Item: FC<ItemProps<TProps>>;
+    CheckboxItem: FC<CheckboxItemProps<TProps>>;
+    RadioGroup: FC<RadioGroupProps<TProps>>;
+    Submenu: FC<SubMenuProps<TProps>>;
+    show: (params: Omit<ShowContextMenuParams<TProps>, "id">) => void;
+    prompt: <TData = any>(
+        params: Omit<ShowContextMenuParams<TProps>, "id">,
+    ) => Promise<PromptResult<TData> | null>;
+}
+
+let menuCount = 0;
+
+/**
+ * Create a menu bound to the type of the props passed when showing it.
+ * The callbacks and predicates of its items receive these props without extra generics
+ *
+ * ```
+ * const fileMenu = createMenu<{ file: File }>();
+ *
+ * <fileMenu.Menu>
+ *   <fileMenu.Item onClick={({ props }) => open(props!.file)}>Open</fileMenu.Item>
+ * </fileMenu.Menu>
+ *
+ * fileMenu.show({ event, props: { file } });
+ * ```
+ *
+ * Pass the instance of a `ContextMenuProvider` when the menu is rendered below one
+ */
+export function createMenu<TProps>(
+    id: MenuId = `contexify-menu-${++menuCount}`,
+    instance: ContextMenu = contextMenu,
+): TypedMenu<TProps> {
+    const menuId = id as TypedMenuId<TProps>;
+
+    const TypedMenu = forwardRef<HTMLDivElement, TypedMenuProps<TProps>>(
+        (props, ref) => <Menu ref={ref} id={menuId} {...props} />,
+    );
+    TypedMenu.displayName = `Menu(${String(id)})`;
+
+    return {
+        id: menuId,
+        Menu: TypedMenu,
+        Item,
+        CheckboxItem,
+        RadioGroup,
+        Submenu,
+        show(params) {
+            instance.show({ ...params, id: menuId });
+        },
+        prompt(params) {
+            return instance.prompt({ ...params, id: menuId });
+        },
+    };
+}
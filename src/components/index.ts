@@ -1,6 +1,18 @@
+export type { MenuAnimation, MenuAnimationPreset } from "./animation";
 export * from "./Arrow";
+export * from "./CheckboxItem";
+export * from "./CommandPalette";
+export * from "./CommandProvider";
+export * from "./ContextMenuProvider";
+export * from "./createMenu";
 export * from "./Item";
 export * from "./ItemTrackerProvider";
 export * from "./keyboardController";
 export * from "./Menu";
+export * from "./MenuGroup";
+export * from "./MenuTrigger";
+export * from "./RadioGroup";
+export * from "./RightSlot";
+export * from "./Separator";
 export * from "./Submenu";
+export type { VirtualizedOptions } from "./VirtualList";
@@ -1,35 +1,163 @@
+import { normalizeShortcut } from "../core";
 import type { ItemTracker, ItemTrackerRecord } from "../hooks";
+import { getVirtualList, type VirtualListHandle } from "./VirtualList";
 
-interface Menu<T = ItemTrackerRecord> {
-    items: T[];
+/**
+ * Focusable items of a menu by index, the ones of a virtualized menu may not be mounted
+ */
+interface ItemList {
+    length: number;
+    /**
+     * Whether the item can be focused, without rendering it
+     */
+    isFocusable: (index: number) => boolean;
+    /**
+     * Record of the item, undefined when it can't be focused
+     */
+    get: (index: number) => ItemTrackerRecord | undefined;
+    indexOf: (node: HTMLElement) => number;
+    getText: (index: number) => string;
+}
+
+interface Menu {
+    items: ItemList;
+    tracker: ItemTracker;
     isRoot: boolean;
     focusedIndex: number;
     parentNode: HTMLElement;
 }
 
+// structural nodes are never focused, even if they end up in the tracker
+const NON_NAVIGABLE = '[role="separator"], [role="group"], [data-menu-label]';
+
+const isNavigable = ({ node }: ItemTrackerRecord) =>
+    node.isConnected && !node.matches(NON_NAVIGABLE);
+
+const getRecords = (tracker: ItemTracker) =>
+    Array.from(tracker.values()).filter(isNavigable);
+
+const TYPEAHEAD_RESET_MS = 500;
+const PAGE_SIZE = 10;
+
+const getItemText = ({ node, textValue }: ItemTrackerRecord) =>
+    textValue ?? node.textContent ?? "";
+
+function createVirtualItemList(
+    tracker: ItemTracker,
+    virtualList: VirtualListHandle,
+): ItemList {
+    return {
+        length: virtualList.count,
+        isFocusable: virtualList.isFocusable,
+        get(index) {
+            const row = virtualList.mountRow(index);
+
+            // separators, labels and disabled items have no focusable record
+            return row
+                ? getRecords(tracker).find(({ node }) => row.contains(node))
+                : undefined;
+        },
+        indexOf: virtualList.indexOf,
+        getText: virtualList.getText,
+    };
+}
+
+function getItems(tracker: ItemTracker): ItemList {
+    const virtualList = getVirtualList(tracker);
+    if (virtualList) return createVirtualItemList(tracker, virtualList);
+
+    const records = getRecords(tracker);
+
+    return {
+        length: records.length,
+        isFocusable: (index) => index >= 0 && index < records.length,
+        get: (index) => records[index],
+        indexOf: (node) => records.findIndex((record) => record.node === node),
+        getText: (index) => getItemText(records[index]),
+    };
+}
+
 export function createKeyboardController() {
     const menuList = new Map<HTMLElement, Menu>();
     let focusedIndex: number;
     let parentNode: HTMLElement;
     let isRoot: boolean;
-    let currentItems: ItemTrackerRecord[];
+    let currentItems: ItemList;
+    let focusedNode: HTMLElement | undefined;
+    let currentTracker: ItemTracker;
     let forceCloseSubmenu = false;
+    let typeaheadQuery = "";
+    let typeaheadTimer: ReturnType<typeof setTimeout> | undefined;
 
     function init(rootMenu: ItemTracker) {
-        currentItems = Array.from(rootMenu.values());
+        currentTracker = rootMenu;
+        currentItems = getItems(rootMenu);
         focusedIndex = -1;
+        focusedNode = undefined;
         isRoot = true;
+        forceCloseSubmenu = false;
+    }
+
+    /**
+     * Pick up the items registered since the menu opened, ie: the ones of an async submenu
+     */
+    function syncItems() {
+        // the submenu opened while loading got its items, move into it
+        const pendingTracker = forceCloseSubmenu
+            ? currentTracker.get(parentNode)?.submenuRefTracker
+            : undefined;
+
+        if (pendingTracker && getItems(pendingTracker).length > 0) {
+            forceCloseSubmenu = false;
+            currentTracker = pendingTracker;
+            focusedIndex = -1;
+            focusedNode = undefined;
+        }
+
+        currentItems = getItems(currentTracker);
+
+        // the focused row of a virtualized menu may have been scrolled away
+        if (focusedNode?.isConnected)
+            focusedIndex = currentItems.indexOf(focusedNode);
+        else focusedIndex = Math.min(focusedIndex, currentItems.length - 1);
+    }
+
+    /**
+     * Index of the first focusable item from `index` going in `step` direction, -1 if none
+     */
+    function findFocusable(index: number, step: 1 | -1, wrap: boolean) {
+        const { length } = currentItems;
+
+        for (let i = 0; i < length; i++) {
+            let next = index + i * step;
+            if (wrap) next = (next + length) % length;
+            else if (next < 0 || next >= length) break;
+
+            if (currentItems.isFocusable(next)) return next;
+        }
+
+        return -1;
     }
 
     function focusSelectedItem() {
-        currentItems[focusedIndex].node.focus();
+        const item = currentItems.get(focusedIndex);
+        if (!item) return;
+
+        // roving tabindex, only the focused item is tabbable
+        for (const { node } of getRecords(currentTracker))
+            node.tabIndex = node === item.node ? 0 : -1;
+
+        focusedNode = item.node;
+        item.node.focus();
     }
 
-    const isSubmenuFocused = () =>
-        focusedIndex >= 0 && currentItems[focusedIndex].isSubmenu;
+    const getFocusedItem = () =>
+        focusedIndex >= 0 ? currentItems.get(focusedIndex) : undefined;
+
+    const isSubmenuFocused = () => !!getFocusedItem()?.isSubmenu;
 
     const getSubmenuItems = () =>
-        Array.from(currentItems[focusedIndex].submenuRefTracker!.values());
+        getItems(getFocusedItem()!.submenuRefTracker!);
 
     function isFocused() {
         if (focusedIndex === -1) {
@@ -41,50 +169,76 @@ export function createKeyboardController() {
         return true;
     }
 
-    function moveDown() {
-        if (focusedIndex + 1 < currentItems.length) {
-            focusedIndex++;
-        } else if (focusedIndex + 1 === currentItems.length) {
-            focusedIndex = 0;
-        }
+    function focusIndex(index: number) {
+        if (index === -1) return;
 
+        focusedIndex = index;
         if (forceCloseSubmenu) closeSubmenu();
 
         focusSelectedItem();
     }
 
+    function moveDown() {
+        syncItems();
+        focusIndex(findFocusable(focusedIndex + 1, 1, true));
+    }
+
     function moveUp() {
-        if (focusedIndex === -1 || focusedIndex === 0) {
-            focusedIndex = currentItems.length - 1;
-        } else if (focusedIndex - 1 < currentItems.length) {
-            focusedIndex--;
-        }
+        syncItems();
+        focusIndex(
+            findFocusable(
+                focusedIndex === -1
+                    ? currentItems.length - 1
+                    : focusedIndex - 1,
+                -1,
+                true,
+            ),
+        );
+    }
 
-        if (forceCloseSubmenu) closeSubmenu();
+    function moveTo(index: number, step: 1 | -1) {
+        syncItems();
+        if (currentItems.length === 0) return;
 
-        focusSelectedItem();
+        const clamped = Math.min(Math.max(index, 0), currentItems.length - 1);
+        // look past the end the other way, ie: the last row is a separator
+        const found = findFocusable(clamped, step, false);
+        focusIndex(
+            found === -1
+                ? findFocusable(clamped, -step as 1 | -1, false)
+                : found,
+        );
     }
 
+    const moveFirst = () => moveTo(0, 1);
+    const moveLast = () => moveTo(currentItems.length - 1, -1);
+
+    // unlike the arrows, paging stops at the ends
+    const movePageDown = () => moveTo(Math.max(focusedIndex, 0) + PAGE_SIZE, 1);
+    const movePageUp = () => moveTo(focusedIndex - PAGE_SIZE, -1);
+
     function openSubmenu() {
+        syncItems();
         if (isFocused() && isSubmenuFocused()) {
             const submenuItems = getSubmenuItems();
-            const { node, setSubmenuPosition } = currentItems[focusedIndex];
+            const { node, setSubmenuOpen, submenuRefTracker } =
+                getFocusedItem()!;
 
             menuList.set(node, {
                 isRoot,
                 focusedIndex,
                 parentNode: parentNode || node,
                 items: currentItems,
+                tracker: currentTracker,
             });
 
-            setSubmenuPosition!();
-            node.style.pointerEvents = "initial";
-            node.style.opacity = "1";
+            setSubmenuOpen!(true);
             parentNode = node;
 
             if (submenuItems.length > 0) {
-                focusedIndex = 0;
                 currentItems = submenuItems;
+                currentTracker = submenuRefTracker!;
+                focusedIndex = Math.max(findFocusable(0, 1, false), 0);
             } else {
                 forceCloseSubmenu = true;
             }
@@ -101,9 +255,9 @@ export function createKeyboardController() {
         if (isFocused() && !isRoot) {
             const parent = menuList.get(parentNode)!;
 
-            parentNode.style.pointerEvents = "none";
-            parentNode.style.opacity = "0";
+            parent.tracker.get(parentNode)?.setSubmenuOpen?.(false);
             currentItems = parent.items;
+            currentTracker = parent.tracker;
             parentNode = parent.parentNode;
 
             if (parent.isRoot) {
@@ -115,6 +269,8 @@ export function createKeyboardController() {
                 focusedIndex = parent.focusedIndex;
                 focusSelectedItem();
             }
+
+            forceCloseSubmenu = false;
         }
     }
 
@@ -129,15 +285,82 @@ export function createKeyboardController() {
                 if (item.keyMatcher) item.keyMatcher(e);
             }
         }
-        walkAndMatch(currentItems);
+        walkAndMatch(getRecords(currentTracker));
+    }
+
+    /**
+     * Move the focus to the next item starting with the typed characters
+     * https://www.w3.org/WAI/ARIA/apg/patterns/menubar/#keyboardinteraction
+     */
+    function typeahead(e: KeyboardEvent) {
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey)
+            return false;
+
+        syncItems();
+
+        clearTimeout(typeaheadTimer);
+        typeaheadTimer = setTimeout(() => {
+            typeaheadQuery = "";
+        }, TYPEAHEAD_RESET_MS);
+        typeaheadQuery += e.key.toLowerCase();
+
+        // repeating the same character cycles through the items starting with it
+        const isRepeated = typeaheadQuery
+            .split("")
+            .every((char) => char === typeaheadQuery[0]);
+        const query = isRepeated ? typeaheadQuery[0] : typeaheadQuery;
+        const start = isRepeated ? focusedIndex + 1 : Math.max(focusedIndex, 0);
+
+        for (let i = 0; i < currentItems.length; i++) {
+            const index = (start + i) % currentItems.length;
+
+            if (
+                currentItems
+                    .getText(index)
+                    .trim()
+                    .toLowerCase()
+                    .startsWith(query) &&
+                currentItems.isFocusable(index)
+            ) {
+                focusIndex(index);
+                return true;
+            }
+        }
+
+        return false;
     }
 
     return {
         init,
         moveDown,
         moveUp,
+        moveFirst,
+        moveLast,
+        movePageDown,
+        movePageUp,
         openSubmenu,
         closeSubmenu,
         matchKeys,
+        typeahead,
     };
 }
+
+/**
+ * Items of the same menu tree sharing a shortcut, grouped by shortcut
+ */
+export function findShortcutConflicts(tracker: ItemTracker) {
+    const shortcuts = new Map<string, HTMLElement[]>();
+
+    function walk(items: Iterable<ItemTrackerRecord>) {
+        for (const item of items) {
+            if (item.submenuRefTracker) walk(item.submenuRefTracker.values());
+            if (!item.shortcut || !item.node.isConnected) continue;
+
+            const key = normalizeShortcut(item.shortcut);
+            shortcuts.set(key, [...(shortcuts.get(key) ?? []), item.node]);
+        }
+    }
+    walk(tracker.values());
+
+    return Array.from(shortcuts).filter(([, nodes]) => nodes.length > 1);
+}
@@ -0,0 +1,88 @@
+import type { RefObject } from "react";
+
+import type { EventManager } from "../core";
+
+export type MenuStack = RefObject<HTMLElement | null>[];
+
+// one stack per event manager, the menus of a ContextMenuProvider stack on their own
+const stacks = new WeakMap<EventManager, MenuStack>();
+
+/**
+ * Open menus in the order they were shown, the last one is on top
+ */
+export function getMenuStack(eventManager: EventManager) {
+    let stack = stacks.get(eventManager);
+
+    if (!stack) {
+        stack = [];
+        stacks.set(eventManager, stack);
+    }
+
+    return stack;
+}
+
+// last layer handed out, per stack
+const layers = new WeakMap<MenuStack, number>();
+
+/**
+ * Puts the menu on top of the stack and returns its layer, higher than the
+ * layer of any menu shown before it
+ */
+export function pushMenu(
+    stack: MenuStack,
+    menu: RefObject<HTMLElement | null>,
+) {
+    removeMenu(stack, menu);
+    // no menu is open anymore, the layers can start over
+    const layer = stack.length ? (layers.get(stack) ?? 0) + 1 : 0;
+    stack.push(menu);
+    layers.set(stack, layer);
+
+    return layer;
+}
+
+export function removeMenu(
+    stack: MenuStack,
+    menu: RefObject<HTMLElement | null>,
+) {
+    const index = stack.indexOf(menu);
+    if (index !== -1) stack.splice(index, 1);
+}
+
+// topmost menu when the last event was dispatched, per stack
+const eventTargets = new WeakMap<
+    MenuStack,
+    { event: Event; menu?: RefObject<HTMLElement | null> }
+>();
+
+/**
+ * Whether the menu was the topmost one when the event was dispatched.
+ * Closing it while handling the event doesn't hand the event to the menu below
+ */
+export function isTopmostOnEvent(
+    stack: MenuStack,
+    menu: RefObject<HTMLElement | null>,
+    event: Event,
+) {
+    let target = eventTargets.get(stack);
+
+    if (target?.event !== event) {
+        target = { event, menu: stack[stack.length - 1] };
+        eventTargets.set(stack, target);
+    }
+
+    return target.menu === menu;
+}
+
+/**
+ * Nodes of the menus opened on top of the given one
+ */
+export function getMenusAbove(
+    stack: MenuStack,
+    menu: RefObject<HTMLElement | null>,
+) {
+    return stack
+        .slice(stack.indexOf(menu) + 1)
+        .map(({ current }) => current)
+        .filter((node) => node != null);
+}
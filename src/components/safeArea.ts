@@ -0,0 +1,61 @@
+import type { Rect } from "../core";
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export interface SafeArea {
+    /**
+     * Submenu the pointer is heading to
+     */
+    owner: unknown;
+    contains: (point: Point) => boolean;
+}
+
+/**
+ * Safe area of the submenu being reached for, shared by the submenus of the same level so they ignore the hover meanwhile
+ */
+export interface SubmenuIntent {
+    current: SafeArea | null;
+}
+
+// room behind the exit point, so the pointer can't slip out of the triangle right away
+const APEX_SLACK_PX = 4;
+
+const cross = (p: Point, a: Point, b: Point) =>
+    (p.x - b.x) * (a.y - b.y) - (a.x - b.x) * (p.y - b.y);
+
+function isInTriangle(p: Point, a: Point, b: Point, c: Point) {
+    const d1 = cross(p, a, b);
+    const d2 = cross(p, b, c);
+    const d3 = cross(p, c, a);
+
+    const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+    const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+
+    return !(hasNegative && hasPositive);
+}
+
+/**
+ * Triangle between the point where the pointer left the trigger and the near edge of the submenu
+ */
+export function createSafeArea(
+    owner: unknown,
+    exit: Point,
+    submenu: Rect,
+    opensLeft: boolean,
+): SafeArea {
+    const edge = opensLeft ? submenu.x + submenu.width : submenu.x;
+    const apex = {
+        x: exit.x + (opensLeft ? APEX_SLACK_PX : -APEX_SLACK_PX),
+        y: exit.y,
+    };
+    const top = { x: edge, y: submenu.y };
+    const bottom = { x: edge, y: submenu.y + submenu.height };
+
+    return {
+        owner,
+        contains: (point) => isInTriangle(point, apex, top, bottom),
+    };
+}
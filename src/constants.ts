@@ -1,5 +1,13 @@
+// string values so they can't collide with numeric menu ids
 export const enum EVENT {
-    HIDE_ALL,
+    HIDE_ALL = "contexify:hide-all",
+    HIDE = "contexify:hide",
+    SHORTCUT_TARGET = "contexify:shortcut-target",
+    ITEM_ACTIVATED = "contexify:item-activated",
+    MENU_SHOWN = "contexify:menu-shown",
+    MENU_HIDDEN = "contexify:menu-hidden",
+    SUBMENU_OPENED = "contexify:submenu-opened",
+    SUBMENU_CLOSED = "contexify:submenu-closed",
 }
 
 export const NOOP = (): void => {
@@ -0,0 +1,191 @@
+import type { ReactNode } from "react";
+import type {
+    BooleanPredicate,
+    HandlerParamsEvent,
+    ItemParams,
+    TargetsRenderer,
+} from "../types";
+import { getPredicateValue, warnInDev } from "../utils";
+import { createShortcutMatcher, isValidShortcut } from "./shortcut";
+
+/**
+ * Action defined once and surfaced in the menus, the shortcuts and the `CommandPalette`
+ */
+export interface Command<Props = any, Target = any> {
+    id: string;
+    label: ReactNode | TargetsRenderer<Target>;
+    icon?: ReactNode;
+    /**
+     * Shortcut like `Mod+Shift+K`, displayed by the items and matched by `handleKeyDown`
+     */
+    shortcut?: string;
+    /**
+     * Extra words the palette filter matches
+     */
+    keywords?: string[];
+    enabled?: BooleanPredicate<Props, any, Target>;
+    visible?: BooleanPredicate<Props, any, Target>;
+    run: (params: ItemParams<Props, any, Target>) => void;
+}
+
+/**
+ * Params of a command run outside of a menu, ie: from a toolbar
+ */
+export type CommandRunParams<Props = any, Target = any> = Partial<
+    ItemParams<Props, any, Target>
+>;
+
+export interface CommandRegistry {
+    /**
+     * Add commands, returns the function removing them
+     */
+    register: (commands: Command | Command[]) => () => void;
+    get: (id: string) => Command | undefined;
+    getAll: () => Command[];
+    /**
+     * Whether the command is visible and enabled for the params
+     */
+    isAvailable: (id: string, params?: CommandRunParams) => boolean;
+    /**
+     * Run the command when it is available, returns whether it ran
+     */
+    run: (id: string, params?: CommandRunParams) => boolean;
+    /**
+     * Run the command bound to the pressed shortcut
+     *
+     * ```
+     * <div onKeyDown={(e) => commands.handleKeyDown(e.nativeEvent, { targets: selection })}>
+     * ```
+     */
+    handleKeyDown: (e: KeyboardEvent, params?: CommandRunParams) => boolean;
+    /**
+     * Listen to the commands being added or removed, returns the unsubscribe function
+     */
+    subscribe: (listener: () => void) => () => void;
+}
+
+// a param passed as undefined keeps its default
+const toItemParams = (
+    id: string,
+    { targets, triggerEvent, ...params }: CommandRunParams = {},
+) =>
+    ({
+        ...params,
+        id: params.id ?? id,
+        targets: targets ?? [],
+        triggerEvent: triggerEvent ?? ({} as HandlerParamsEvent),
+    }) as ItemParams;
+
+/**
+ * Create a registry of commands. Share it with the items through `CommandProvider`
+ *
+ * ```
+ * const commands = createCommandRegistry([
+ *   { id: "rename", label: "Rename", shortcut: "F2", run: ({ targets }) => rename(targets[0]) },
+ * ]);
+ * ```
+ */
+export function createCommandRegistry(
+    initialCommands: Command[] = [],
+): CommandRegistry {
+    const commands = new Map<string, Command>();
+    // parsed once on register, by command id
+    const matchers = new Map<string, (e: KeyboardEvent) => boolean>();
+    const listeners = new Set<() => void>();
+    // same array until the commands change, for `useSyncExternalStore`
+    let snapshot: Command[] = [];
+
+    function notify() {
+        snapshot = Array.from(commands.values());
+        for (const listener of listeners) listener();
+    }
+
+    const registry: CommandRegistry = {
+        register(added) {
+            const list = Array.isArray(added) ? added : [added];
+
+            for (const command of list) {
+                if (commands.has(command.id))
+                    warnInDev(
+                        `Command "${command.id}" is registered twice, the last one wins`,
+                    );
+
+                commands.set(command.id, command);
+                matchers.delete(command.id);
+
+                if (!command.shortcut) continue;
+
+                if (isValidShortcut(command.shortcut))
+                    matchers.set(
+                        command.id,
+                        createShortcutMatcher(command.shortcut),
+                    );
+                else
+                    warnInDev(
+                        `Invalid shortcut "${command.shortcut}" on command "${command.id}", it is ignored`,
+                    );
+            }
+            notify();
+
+            return () => {
+                for (const command of list)
+                    if (commands.get(command.id) === command) {
+                        commands.delete(command.id);
+                        matchers.delete(command.id);
+                    }
+                notify();
+            };
+        },
+        get: (id) => commands.get(id),
+        getAll: () => snapshot,
+        isAvailable(id, params) {
+            const command = commands.get(id);
+            if (!command) return false;
+
+            const args = toItemParams(id, params);
+
+            return (
+                getPredicateValue(command.visible ?? true, args) &&
+                getPredicateValue(command.enabled ?? true, args)
+            );
+        },
+        run(id, params) {
+            const command = commands.get(id);
+
+            if (!command) {
+                warnInDev(`No command with the id "${id}" is registered`);
+                return false;
+            }
+
+            if (!registry.isAvailable(id, params)) return false;
+
+            command.run(toItemParams(id, params));
+            return true;
+        },
+        handleKeyDown(e, params) {
+            for (const [id, matches] of matchers) {
+                if (!matches(e)) continue;
+
+                if (registry.run(id, { ...params, event: e })) {
+                    e.preventDefault();
+                    return true;
+                }
+            }
+
+            return false;
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+
+    if (initialCommands.length > 0) registry.register(initialCommands);
+
+    return registry;
+}
+
+export const commandRegistry = createCommandRegistry();
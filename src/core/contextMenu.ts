@@ -1,42 +1,271 @@
 import type { SyntheticEvent } from "react";
-import type { MenuId, TriggerEvent } from "../types";
-import { eventManager } from "./eventManager";
+import type {
+    BuiltInOrString,
+    MenuId,
+    TriggerEvent,
+    TypedMenuId,
+    UntypedMenuId,
+} from "../types";
+import { warnInDev } from "../utils";
+import {
+    createEventManager,
+    type EventManager,
+    eventManager,
+} from "./eventManager";
+import type { Anchor, Placement } from "./positioning";
 
 import { EVENT } from "../constants";
 
 export interface ContextMenu {
+    /**
+     * Event manager the menus of this instance listen to
+     */
+    eventManager: EventManager;
     show: <TProps>(params: ShowContextMenuParams<TProps>) => void;
+    /**
+     * Show the menu and wait for the user to pick an item
+     */
+    prompt: <TProps, TData = any>(
+        params: ShowContextMenuParams<TProps>,
+    ) => Promise<PromptResult<TData> | null>;
     hideAll: () => void;
+    /**
+     * Hide a single menu, pinned or not
+     */
+    hide: (id: MenuId) => void;
+    setShortcutTarget: <TProps>(params: ShortcutTargetParams<TProps>) => void;
+    /**
+     * Subscribe to the lifecycle of the menus, returns the unsubscribe function
+     */
+    on: <K extends keyof ContextMenuEventMap>(
+        type: K,
+        handler: (params: ContextMenuEventMap[K]) => void,
+    ) => () => void;
 }
 
 export interface ShowContextMenuParams<TProps = unknown> {
-    id: MenuId;
+    id: UntypedMenuId | TypedMenuId<TProps>;
     event: TriggerEvent;
     props?: TProps;
+    /**
+     * What the menu is opened for, ie: the selected rows. Received by the predicates and the handlers.
+     * Defaults to `[props]`, or no target when there are no props
+     */
+    targets?: unknown[];
     position?: {
         x: number;
         y: number;
     } | null;
+    /**
+     * @deprecated use `anchor` with `placement: "top-start"`
+     */
     anchorBottom?: {
         x: number;
         y: number;
     } | null;
+    /**
+     * Element or rect the menu is placed against, instead of the cursor
+     */
+    anchor?: Anchor | null;
+    placement?: Placement;
+}
+
+/**
+ * Target used by the shortcuts of a `Menu` with a `shortcutScope` while the menu is hidden
+ */
+export interface ShortcutTargetParams<TProps = unknown> {
+    id: UntypedMenuId | TypedMenuId<TProps>;
+    props?: TProps;
+    targets?: unknown[];
+    event?: TriggerEvent;
+}
+
+/**
+ * Item picked in a prompted menu
+ */
+export interface PromptResult<TData = any> {
+    id?: string;
+    data?: TData;
+}
+
+export type HideReason = BuiltInOrString<
+    | "escape"
+    | "outside-click"
+    | "item"
+    | "hide-all"
+    | "hide"
+    | "scroll"
+    | "resize"
+    | "blur"
+    | "anchor-hidden"
+    | "tab"
+    | "unmount"
+>;
+
+export interface HideAllParams {
+    reason?: HideReason;
+}
+
+export interface HideMenuParams {
+    id: MenuId;
+}
+
+export interface MenuShownParams<TProps = any> {
+    id: MenuId;
+    /**
+     * Position of the trigger, before the menu is placed
+     */
+    x: number;
+    y: number;
+    props?: TProps;
+    triggerEvent: TriggerEvent;
+}
+
+export interface MenuHiddenParams {
+    id: MenuId;
+    reason: HideReason;
+}
+
+export interface ItemActivatedParams<TData = any> {
+    menuId?: MenuId;
+    id?: string;
+    data?: TData;
+    /**
+     * Whether the item closes the menu, a checkbox toggled in place doesn't
+     */
+    closeOnClick: boolean;
+}
+
+export interface SubmenuToggleParams {
+    menuId?: MenuId;
+    id?: string;
+    label: string;
+    node: HTMLElement;
+}
+
+export interface ContextMenuEventMap {
+    shown: MenuShownParams;
+    hidden: MenuHiddenParams;
+    "item-activated": ItemActivatedParams;
+    "submenu-opened": SubmenuToggleParams;
+    "submenu-closed": SubmenuToggleParams;
 }
 
-const contextMenu: ContextMenu = {
-    show({ event, id, props, position, anchorBottom }) {
-        if (event.preventDefault) event.preventDefault();
+const lifecycleEvents: Record<keyof ContextMenuEventMap, EVENT> = {
+    shown: EVENT.MENU_SHOWN,
+    hidden: EVENT.MENU_HIDDEN,
+    "item-activated": EVENT.ITEM_ACTIVATED,
+    "submenu-opened": EVENT.SUBMENU_OPENED,
+    "submenu-closed": EVENT.SUBMENU_CLOSED,
+};
+
+/**
+ * Create a context menu API bound to its own event manager, isolated from the global one.
+ * Share it with the menus through `ContextMenuProvider`
+ */
+export function createContextMenu(
+    eventManager: EventManager = createEventManager(),
+): ContextMenu {
+    // only one prompt at a time, the menus are exclusive
+    let cancelPrompt: (() => void) | undefined;
 
-        eventManager.emit(EVENT.HIDE_ALL).emit(id, {
-            event: (event as SyntheticEvent).nativeEvent || event,
+    const contextMenu: ContextMenu = {
+        eventManager,
+        show({
+            event,
+            id,
             props,
+            targets,
             position,
             anchorBottom,
-        });
-    },
-    hideAll() {
-        eventManager.emit(EVENT.HIDE_ALL);
-    },
-};
+            anchor,
+            placement,
+        }) {
+            if (event.preventDefault) event.preventDefault();
+
+            cancelPrompt?.();
+
+            if (!eventManager.has(id))
+                warnInDev(
+                    `No Menu with the id "${String(id)}" is mounted, nothing to show`,
+                );
+
+            eventManager.emit(EVENT.HIDE_ALL).emit(id, {
+                event: (event as SyntheticEvent).nativeEvent || event,
+                props,
+                targets,
+                position,
+                anchorBottom,
+                anchor,
+                placement,
+            });
+        },
+        prompt<TProps, TData = any>(params: ShowContextMenuParams<TProps>) {
+            return new Promise<PromptResult<TData> | null>((resolve) => {
+                function settle(result: PromptResult<TData> | null) {
+                    cancelPrompt = undefined;
+                    eventManager
+                        .off(EVENT.ITEM_ACTIVATED, handleItemActivated)
+                        .off(EVENT.MENU_HIDDEN, handleMenuHidden);
+                    resolve(result);
+                }
+
+                function handleItemActivated({
+                    menuId,
+                    id,
+                    data,
+                    closeOnClick,
+                }: ItemActivatedParams<TData>) {
+                    // the menu stays open, the user may still pick another item
+                    if (menuId === params.id && closeOnClick)
+                        settle({ id, data });
+                }
+
+                function handleMenuHidden({ id }: MenuHiddenParams) {
+                    if (id === params.id) settle(null);
+                }
+
+                // settles the previous prompt
+                contextMenu.show(params);
+
+                if (!eventManager.has(params.id)) {
+                    resolve(null);
+                    return;
+                }
+
+                eventManager
+                    .on(EVENT.ITEM_ACTIVATED, handleItemActivated)
+                    .on(EVENT.MENU_HIDDEN, handleMenuHidden);
+                cancelPrompt = () => settle(null);
+            });
+        },
+        hideAll() {
+            eventManager.emit(EVENT.HIDE_ALL);
+        },
+        hide(id) {
+            eventManager.emit<HideMenuParams>(EVENT.HIDE, { id });
+        },
+        setShortcutTarget({ id, props, targets, event }) {
+            eventManager.emit(EVENT.SHORTCUT_TARGET, {
+                id,
+                props,
+                targets,
+                event:
+                    (event as SyntheticEvent | undefined)?.nativeEvent || event,
+            });
+        },
+        on(type, handler) {
+            eventManager.on(lifecycleEvents[type], handler);
+
+            return () => {
+                eventManager.off(lifecycleEvents[type], handler);
+            };
+        },
+    };
+
+    return contextMenu;
+}
+
+const contextMenu = createContextMenu(eventManager);
 
 export { contextMenu };
@@ -5,9 +5,10 @@ export interface EventManager<E = EventType> {
   on<T = any>(event: E, handler: Handler<T>): EventManager<E>;
   off<T = any>(event: E, handler?: Handler<T>): EventManager<E>;
   emit<T = any>(event: E, args?: T): EventManager<E>;
+  has(event: E): boolean;
 }
 
-function createEventManager<E = EventType>(): EventManager<E> {
+export function createEventManager<E = EventType>(): EventManager<E> {
   const eventList = new Map<E, Set<Handler>>();
 
   return {
@@ -33,6 +34,9 @@ function createEventManager<E = EventType>(): EventManager<E> {
       }
       return this;
     },
+    has(event: E) {
+      return (eventList.get(event)?.size ?? 0) > 0;
+    },
   };
 }
 
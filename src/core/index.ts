@@ -1,2 +1,5 @@
 export * from './eventManager';
 export * from './contextMenu';
+export * from './shortcut';
+export * from './positioning';
+export * from './commands';
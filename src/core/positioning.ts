@@ -0,0 +1,332 @@
+export type Side = "top" | "right" | "bottom" | "left";
+export type Alignment = "start" | "end";
+export type Placement = Side | `${Side}-${Alignment}`;
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Anything exposing a bounding rect, ie: a range or a virtual cursor
+ */
+export interface VirtualElement {
+    getBoundingClientRect: () => Rect;
+}
+
+export type Anchor = Element | VirtualElement | Rect;
+
+/**
+ * Area the floating element must stay in, defaults to the viewport
+ */
+export type Boundary = "viewport" | Element | Rect;
+
+export interface MiddlewareState {
+    x: number;
+    y: number;
+    placement: Placement;
+    initialPlacement: Placement;
+    reference: Rect;
+    floating: Rect;
+    boundary: Rect;
+}
+
+export interface MiddlewareResult {
+    x?: number;
+    y?: number;
+    /**
+     * Compute the coordinates again for the given placement and run the middleware from the start
+     */
+    reset?: { placement: Placement };
+}
+
+export interface Middleware {
+    name: string;
+    fn: (state: MiddlewareState) => MiddlewareResult;
+}
+
+export interface ComputePositionOptions {
+    placement?: Placement;
+    middleware?: (Middleware | false | null | undefined)[];
+    boundary?: Boundary;
+    /**
+     * Document holding the floating element, when it lives in an iframe
+     */
+    ownerDocument?: Document;
+}
+
+export interface ComputePositionResult {
+    x: number;
+    y: number;
+    placement: Placement;
+}
+
+const oppositeSide: Record<Side, Side> = {
+    top: "bottom",
+    bottom: "top",
+    left: "right",
+    right: "left",
+};
+
+const MAX_RESETS = 5;
+
+export const getSide = (placement: Placement) =>
+    placement.split("-")[0] as Side;
+
+export const getAlignment = (placement: Placement) =>
+    placement.split("-")[1] as Alignment | undefined;
+
+const isVertical = (side: Side) => side === "top" || side === "bottom";
+
+export function getOppositePlacement(placement: Placement) {
+    const alignment = getAlignment(placement);
+    const side = oppositeSide[getSide(placement)];
+
+    return (alignment ? `${side}-${alignment}` : side) as Placement;
+}
+
+function isRect(anchor: Anchor): anchor is Rect {
+    return !("getBoundingClientRect" in anchor);
+}
+
+export function getAnchorRect(anchor: Anchor): Rect {
+    const { x, y, width, height } = isRect(anchor)
+        ? anchor
+        : anchor.getBoundingClientRect();
+
+    return { x, y, width, height };
+}
+
+/**
+ * Whether part of the anchor is still in the viewport
+ */
+export function isAnchorVisible(anchor: Anchor) {
+    // not using instanceof, the anchor may come from an iframe
+    const element = "nodeType" in anchor ? anchor : null;
+    if (element && !element.isConnected) return false;
+
+    const { x, y, width, height } = getAnchorRect(anchor);
+    const { clientWidth, clientHeight } = (element?.ownerDocument ?? document)
+        .documentElement;
+
+    return (
+        x + width >= 0 &&
+        y + height >= 0 &&
+        x <= clientWidth &&
+        y <= clientHeight
+    );
+}
+
+export function getBoundaryRect(
+    boundary: Boundary = "viewport",
+    ownerDocument = document,
+): Rect {
+    const { clientWidth, clientHeight } = ownerDocument.documentElement;
+    const viewport = { x: 0, y: 0, width: clientWidth, height: clientHeight };
+
+    if (boundary === "viewport") return viewport;
+
+    // the floating element can't go past the viewport, whatever the boundary
+    const rect = getAnchorRect(boundary);
+    const x = Math.max(rect.x, 0);
+    const y = Math.max(rect.y, 0);
+
+    return {
+        x,
+        y,
+        width: Math.max(Math.min(rect.x + rect.width, clientWidth) - x, 0),
+        height: Math.max(Math.min(rect.y + rect.height, clientHeight) - y, 0),
+    };
+}
+
+function computeCoords(reference: Rect, floating: Rect, placement: Placement) {
+    const side = getSide(placement);
+    const alignment = getAlignment(placement);
+    const vertical = isVertical(side);
+
+    let x = reference.x + reference.width / 2 - floating.width / 2;
+    let y = reference.y + reference.height / 2 - floating.height / 2;
+
+    switch (side) {
+        case "top":
+            y = reference.y - floating.height;
+            break;
+        case "bottom":
+            y = reference.y + reference.height;
+            break;
+        case "left":
+            x = reference.x - floating.width;
+            break;
+        case "right":
+            x = reference.x + reference.width;
+            break;
+    }
+
+    if (alignment === "start") {
+        if (vertical) x = reference.x;
+        else y = reference.y;
+    } else if (alignment === "end") {
+        if (vertical) x = reference.x + reference.width - floating.width;
+        else y = reference.y + reference.height - floating.height;
+    }
+
+    return { x, y };
+}
+
+/**
+ * How much the floating element overflows each side of the boundary, negative values mean there is room left
+ */
+export function detectOverflow(
+    { x, y, floating, boundary }: MiddlewareState,
+    padding = 0,
+): Record<Side, number> {
+    return {
+        top: boundary.y + padding - y,
+        left: boundary.x + padding - x,
+        bottom: y + floating.height - (boundary.y + boundary.height - padding),
+        right: x + floating.width - (boundary.x + boundary.width - padding),
+    };
+}
+
+/**
+ * Move the floating element away from the reference, and along it with `crossAxis`
+ */
+export function offset(
+    value: number | { mainAxis?: number; crossAxis?: number },
+): Middleware {
+    const { mainAxis = 0, crossAxis = 0 } =
+        typeof value === "number" ? { mainAxis: value } : value;
+
+    return {
+        name: "offset",
+        fn({ x, y, placement }) {
+            const side = getSide(placement);
+            const direction = side === "top" || side === "left" ? -1 : 1;
+            // keep the cross axis symmetric when the alignment is mirrored
+            const crossDirection = getAlignment(placement) === "end" ? -1 : 1;
+
+            return isVertical(side)
+                ? {
+                      x: x + crossAxis * crossDirection,
+                      y: y + mainAxis * direction,
+                  }
+                : {
+                      x: x + mainAxis * direction,
+                      y: y + crossAxis * crossDirection,
+                  };
+        },
+    };
+}
+
+/**
+ * Use the opposite placement when the floating element overflows and the other side has more room
+ */
+export function flip({ padding = 0 }: { padding?: number } = {}): Middleware {
+    return {
+        name: "flip",
+        fn(state) {
+            const { placement, initialPlacement, reference, boundary } = state;
+            if (placement !== initialPlacement) return {};
+
+            const side = getSide(placement);
+            if (detectOverflow(state, padding)[side] <= 0) return {};
+
+            const room: Record<Side, number> = {
+                top: reference.y - boundary.y,
+                left: reference.x - boundary.x,
+                bottom:
+                    boundary.y +
+                    boundary.height -
+                    (reference.y + reference.height),
+                right:
+                    boundary.x +
+                    boundary.width -
+                    (reference.x + reference.width),
+            };
+
+            return room[oppositeSide[side]] > room[side]
+                ? { reset: { placement: getOppositePlacement(placement) } }
+                : {};
+        },
+    };
+}
+
+/**
+ * Keep the floating element inside the boundary by sliding it
+ */
+export function shift({ padding = 0 }: { padding?: number } = {}): Middleware {
+    return {
+        name: "shift",
+        fn({ x, y, floating, boundary }) {
+            const clamp = (
+                value: number,
+                start: number,
+                size: number,
+                length: number,
+            ) =>
+                Math.max(
+                    start + padding,
+                    Math.min(value, start + length - size - padding),
+                );
+
+            return {
+                x: clamp(x, boundary.x, floating.width, boundary.width),
+                y: clamp(y, boundary.y, floating.height, boundary.height),
+            };
+        },
+    };
+}
+
+/**
+ * Compute the viewport coordinates of a floating element placed against a reference
+ *
+ * ```
+ * const { x, y } = computePosition(button.getBoundingClientRect(), menuRect, {
+ *     placement: "bottom-start",
+ *     middleware: [offset(4), flip(), shift({ padding: 8 })],
+ * });
+ * ```
+ */
+export function computePosition(
+    reference: Rect,
+    floating: Rect,
+    {
+        placement: initialPlacement = "bottom-start",
+        middleware = [],
+        boundary,
+        ownerDocument,
+    }: ComputePositionOptions = {},
+): ComputePositionResult {
+    const boundaryRect = getBoundaryRect(boundary, ownerDocument);
+    const steps = middleware.filter(Boolean) as Middleware[];
+
+    let placement = initialPlacement;
+    let { x, y } = computeCoords(reference, floating, placement);
+    let resets = 0;
+
+    for (let i = 0; i < steps.length; i++) {
+        const result = steps[i].fn({
+            x,
+            y,
+            placement,
+            initialPlacement,
+            reference,
+            floating,
+            boundary: boundaryRect,
+        });
+
+        x = result.x ?? x;
+        y = result.y ?? y;
+
+        if (result.reset && resets < MAX_RESETS) {
+            resets++;
+            placement = result.reset.placement;
+            ({ x, y } = computeCoords(reference, floating, placement));
+            i = -1;
+        }
+    }
+
+    return { x, y, placement };
+}
@@ -0,0 +1,237 @@
+export interface ParsedShortcut {
+    key: string;
+    ctrl: boolean;
+    meta: boolean;
+    alt: boolean;
+    shift: boolean;
+}
+
+export type ShortcutPlatform = "mac" | "other";
+
+const modifierAliases: Record<
+    string,
+    keyof Omit<ParsedShortcut, "key"> | "mod"
+> = {
+    mod: "mod",
+    cmdorctrl: "mod",
+    ctrl: "ctrl",
+    control: "ctrl",
+    cmd: "meta",
+    command: "meta",
+    meta: "meta",
+    super: "meta",
+    alt: "alt",
+    option: "alt",
+    opt: "alt",
+    shift: "shift",
+};
+
+const keyAliases: Record<string, string> = {
+    esc: "Escape",
+    escape: "Escape",
+    del: "Delete",
+    delete: "Delete",
+    backspace: "Backspace",
+    enter: "Enter",
+    return: "Enter",
+    tab: "Tab",
+    space: " ",
+    up: "ArrowUp",
+    down: "ArrowDown",
+    left: "ArrowLeft",
+    right: "ArrowRight",
+    arrowup: "ArrowUp",
+    arrowdown: "ArrowDown",
+    arrowleft: "ArrowLeft",
+    arrowright: "ArrowRight",
+    home: "Home",
+    end: "End",
+    pageup: "PageUp",
+    pagedown: "PageDown",
+    insert: "Insert",
+    plus: "+",
+};
+
+const macSymbols: Record<string, string> = {
+    ctrl: "⌃",
+    alt: "⌥",
+    shift: "⇧",
+    meta: "⌘",
+};
+
+const keyLabels: Record<string, string> = {
+    " ": "Space",
+    Escape: "Esc",
+    Delete: "Del",
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+};
+
+export function detectPlatform(): ShortcutPlatform {
+    if (typeof navigator === "undefined") return "other";
+
+    const platform =
+        (navigator as Navigator & { userAgentData?: { platform: string } })
+            .userAgentData?.platform ?? navigator.platform;
+
+    return /mac|iphone|ipad|ipod/i.test(platform) ? "mac" : "other";
+}
+
+/**
+ * Parse a shortcut like `Mod+Shift+K`. `Mod` is `Meta` on mac and `Ctrl` everywhere else
+ */
+export function parseShortcut(
+    shortcut: string,
+    platform: ShortcutPlatform = detectPlatform(),
+): ParsedShortcut {
+    // a trailing "+" is the plus key itself, ie: "Ctrl++"
+    const tokens = shortcut.trim().split(/\+(?!$)/);
+    const parsed: ParsedShortcut = {
+        key: "",
+        ctrl: false,
+        meta: false,
+        alt: false,
+        shift: false,
+    };
+
+    tokens.forEach((token, i) => {
+        const name = token.trim();
+        const modifier = modifierAliases[name.toLowerCase()];
+
+        if (i < tokens.length - 1) {
+            if (!modifier)
+                throw new Error(
+                    `[Contexify] Unknown modifier "${name}" in shortcut "${shortcut}"`,
+                );
+
+            parsed[
+                modifier === "mod"
+                    ? platform === "mac"
+                        ? "meta"
+                        : "ctrl"
+                    : modifier
+            ] = true;
+            return;
+        }
+
+        parsed.key =
+            keyAliases[name.toLowerCase()] ??
+            (name.length === 1 ? name.toLowerCase() : name);
+    });
+
+    if (!parsed.key)
+        throw new Error(`[Contexify] Missing key in shortcut "${shortcut}"`);
+
+    return parsed;
+}
+
+function getKeyCode(key: string) {
+    if (/^[a-z]$/.test(key)) return `Key${key.toUpperCase()}`;
+    if (/^[0-9]$/.test(key)) return `Digit${key}`;
+}
+
+/**
+ * Whether the shortcut can be parsed, `parseShortcut` throws otherwise
+ */
+export function isValidShortcut(shortcut: string) {
+    try {
+        parseShortcut(shortcut);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// a letter or a digit typed by the layout wins over the physical key, ie: on AZERTY
+const isAlphanumeric = (key: string) => /^[a-z0-9]$/i.test(key);
+
+/**
+ * Build a `keyMatcher` out of a shortcut string.
+ * Letters and digits fall back to the physical key when the layout types another character, ie: Cyrillic or `Shift+1`
+ */
+export function createShortcutMatcher(
+    shortcut: string,
+    platform?: ShortcutPlatform,
+) {
+    const { key, ctrl, meta, alt, shift } = parseShortcut(shortcut, platform);
+    const code = getKeyCode(key);
+
+    return (e: KeyboardEvent) =>
+        e.ctrlKey === ctrl &&
+        e.metaKey === meta &&
+        e.altKey === alt &&
+        e.shiftKey === shift &&
+        (isAlphanumeric(e.key)
+            ? e.key.toLowerCase() === key
+            : (e.key.length === 1 ? e.key.toLowerCase() : e.key) === key ||
+              (code != null && e.code === code));
+}
+
+/**
+ * Canonical form of a shortcut, two shortcuts triggering on the same keys have the same canonical form
+ */
+export function normalizeShortcut(
+    shortcut: string,
+    platform?: ShortcutPlatform,
+) {
+    const { key, ctrl, meta, alt, shift } = parseShortcut(shortcut, platform);
+
+    return [ctrl && "Ctrl", meta && "Meta", alt && "Alt", shift && "Shift", key]
+        .filter(Boolean)
+        .join("+");
+}
+
+/**
+ * Human readable shortcut, ie: `⇧⌘K` on mac or `Ctrl+Shift+K` elsewhere
+ */
+export function formatShortcut(
+    shortcut: string,
+    platform: ShortcutPlatform = detectPlatform(),
+) {
+    const { key, ctrl, meta, alt, shift } = parseShortcut(shortcut, platform);
+    const label =
+        keyLabels[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+    if (platform === "mac")
+        return [
+            ctrl && macSymbols.ctrl,
+            alt && macSymbols.alt,
+            shift && macSymbols.shift,
+            meta && macSymbols.meta,
+            label,
+        ]
+            .filter(Boolean)
+            .join("");
+
+    return [
+        ctrl && "Ctrl",
+        meta && "Win",
+        alt && "Alt",
+        shift && "Shift",
+        label,
+    ]
+        .filter(Boolean)
+        .join("+");
+}
+
+/**
+ * Value for the `aria-keyshortcuts` attribute
+ */
+export function getAriaKeyShortcuts(
+    shortcut: string,
+    platform?: ShortcutPlatform,
+) {
+    const { key, ctrl, meta, alt, shift } = parseShortcut(shortcut, platform);
+
+    return [
+        ctrl && "Control",
+        meta && "Meta",
+        alt && "Alt",
+        shift && "Shift",
+        key === " " ? "Space" : key.length === 1 ? key.toUpperCase() : key,
+    ]
+        .filter(Boolean)
+        .join("+");
+}
@@ -1,2 +1,5 @@
 export * from './useItemTracker';
 export * from './useContextMenu';
+export * from './useLongPress';
+export * from './useMenuTrigger';
+export * from './useCommand';
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from "react";
+
+import { useCommandRegistry } from "../components/CommandProvider";
+
+/**
+ * Command registered with the id, updated when the registry changes
+ */
+export function useCommand(id: string | undefined) {
+    const registry = useCommandRegistry();
+
+    return useSyncExternalStore(registry.subscribe, () =>
+        id === undefined ? undefined : registry.get(id),
+    );
+}
+
+/**
+ * Every registered command, updated when the registry changes
+ */
+export function useCommands() {
+    const registry = useCommandRegistry();
+
+    return useSyncExternalStore(registry.subscribe, registry.getAll);
+}
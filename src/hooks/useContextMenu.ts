@@ -1,8 +1,13 @@
-import { contextMenu, type ShowContextMenuParams } from "../core";
-import type { MenuId } from "../types";
+import { useContextMenuInstance } from "../components/ContextMenuProvider";
+import {
+    type PromptResult,
+    type ShortcutTargetParams,
+    type ShowContextMenuParams,
+} from "../core";
+import type { TypedMenuId, UntypedMenuId } from "../types";
 
 export interface UseContextMenuParams<TProps = unknown> {
-    id: MenuId;
+    id: UntypedMenuId | TypedMenuId<TProps>;
     props?: TProps;
 }
 
@@ -10,20 +15,32 @@ type MakeOptional<Type, Key extends keyof Type> = Omit<Type, Key> &
     Partial<Pick<Type, Key>>;
 
 export function useContextMenu<TProps>(params: UseContextMenuParams<TProps>): {
-    show: (params: MakeOptional<ShowContextMenuParams, "id">) => void;
+    show: (params: MakeOptional<ShowContextMenuParams<TProps>, "id">) => void;
+    prompt: <TData = any>(
+        params: MakeOptional<ShowContextMenuParams<TProps>, "id">,
+    ) => Promise<PromptResult<TData> | null>;
     hideAll: () => void;
+    setShortcutTarget: (
+        params: MakeOptional<ShortcutTargetParams<TProps>, "id">,
+    ) => void;
 };
 
 export function useContextMenu<TProps>(
     params?: Partial<UseContextMenuParams<TProps>>,
 ): {
-    show: (params: ShowContextMenuParams) => void;
+    show: (params: ShowContextMenuParams<TProps>) => void;
+    prompt: <TData = any>(
+        params: ShowContextMenuParams<TProps>,
+    ) => Promise<PromptResult<TData> | null>;
     hideAll: () => void;
+    setShortcutTarget: (params: ShortcutTargetParams<TProps>) => void;
 };
 
 export function useContextMenu(
     props?: UseContextMenuParams | Partial<UseContextMenuParams>,
 ) {
+    const contextMenu = useContextMenuInstance();
+
     return {
         show(params: ShowContextMenuParams) {
             contextMenu.show({
@@ -31,8 +48,20 @@ export function useContextMenu(
                 ...params,
             });
         },
+        prompt(params: ShowContextMenuParams) {
+            return contextMenu.prompt({
+                ...props,
+                ...params,
+            });
+        },
         hideAll() {
             contextMenu.hideAll();
         },
+        setShortcutTarget(params: ShortcutTargetParams) {
+            contextMenu.setShortcutTarget({
+                ...props,
+                ...params,
+            });
+        },
     };
 }
@@ -4,8 +4,14 @@ export interface ItemTrackerRecord {
   node: HTMLElement;
   isSubmenu: boolean;
   submenuRefTracker?: ItemTracker;
+  /**
+   * @deprecated use `setSubmenuOpen`, opening the submenu places it
+   */
   setSubmenuPosition?: () => void;
+  setSubmenuOpen?: (open: boolean) => void;
   keyMatcher?: false | ((e: KeyboardEvent) => void);
+  shortcut?: string;
+  textValue?: string;
 }
 
 export type ItemTracker = ReturnType<typeof useItemTracker>;
@@ -0,0 +1,112 @@
+import {
+    type CSSProperties,
+    type MouseEvent,
+    type TouchEvent,
+    useEffect,
+    useRef,
+} from "react";
+
+import { useContextMenuInstance } from "../components/ContextMenuProvider";
+import type { TypedMenuId, UntypedMenuId } from "../types";
+
+export interface UseLongPressParams<TProps = unknown> {
+    id: UntypedMenuId | TypedMenuId<TProps>;
+    props?: TProps;
+    targets?: unknown[];
+    /**
+     * How long the finger must stay down, in ms
+     */
+    delay?: number;
+    /**
+     * How far the finger can move before the press is cancelled, in px
+     */
+    tolerance?: number;
+    disabled?: boolean;
+}
+
+const DEFAULT_DELAY_MS = 500;
+const DEFAULT_TOLERANCE_PX = 10;
+
+// no callout nor text selection on iOS while pressing
+const longPressStyle: CSSProperties = {
+    WebkitTouchCallout: "none",
+    WebkitUserSelect: "none",
+    userSelect: "none",
+};
+
+/**
+ * Open a menu with a long press on touch devices, where `contextmenu` isn't always fired.
+ * Spread the returned props on the trigger element
+ *
+ * ```
+ * const longPress = useLongPress({ id: "menu", props: { file } });
+ *
+ * <div {...longPress}>{file.name}</div>
+ * ```
+ */
+export function useLongPress<TProps>({
+    id,
+    props,
+    targets,
+    delay = DEFAULT_DELAY_MS,
+    tolerance = DEFAULT_TOLERANCE_PX,
+    disabled = false,
+}: UseLongPressParams<TProps>) {
+    const contextMenu = useContextMenuInstance();
+    const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+    const start = useRef<{ x: number; y: number }>(null);
+    const hasFired = useRef(false);
+
+    function cancel() {
+        clearTimeout(timer.current);
+        start.current = null;
+    }
+
+    useEffect(() => cancel, []);
+
+    function onTouchStart(e: TouchEvent<HTMLElement>) {
+        cancel();
+        hasFired.current = false;
+        if (disabled || e.touches.length > 1) return;
+
+        const { clientX, clientY } = e.touches[0];
+        start.current = { x: clientX, y: clientY };
+
+        timer.current = setTimeout(() => {
+            start.current = null;
+            hasFired.current = true;
+            contextMenu.show({ id, event: e, props, targets });
+        }, delay);
+    }
+
+    function onTouchMove(e: TouchEvent<HTMLElement>) {
+        if (!start.current) return;
+
+        const { clientX, clientY } = e.touches[0];
+        if (
+            Math.hypot(clientX - start.current.x, clientY - start.current.y) >
+            tolerance
+        )
+            cancel();
+    }
+
+    function onTouchEnd(e: TouchEvent<HTMLElement>) {
+        cancel();
+
+        // the click emulated after the touch would close the menu right away
+        if (hasFired.current && e.cancelable) e.preventDefault();
+        hasFired.current = false;
+    }
+
+    return {
+        onTouchStart,
+        onTouchMove,
+        onTouchEnd,
+        onTouchCancel: cancel,
+        onContextMenu(e: MouseEvent<HTMLElement>) {
+            // android fires contextmenu on long press as well
+            if (start.current || hasFired.current) e.preventDefault();
+        },
+        style: longPressStyle,
+    };
+}
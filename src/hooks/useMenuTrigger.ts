@@ -0,0 +1,185 @@
+import {
+    type KeyboardEvent,
+    type MouseEvent,
+    useCallback,
+    useEffect,
+    useRef,
+    useState,
+} from "react";
+
+import { useContextMenuInstance } from "../components/ContextMenuProvider";
+import type { Placement } from "../core";
+import type { TriggerEvent, TypedMenuId, UntypedMenuId } from "../types";
+import { getMenuElementId } from "../utils";
+import { type UseLongPressParams, useLongPress } from "./useLongPress";
+
+export type MenuTriggerEvent = "contextmenu" | "click";
+
+export interface UseMenuTriggerParams<TProps = unknown> {
+    id: UntypedMenuId | TypedMenuId<TProps>;
+    props?: TProps;
+    /**
+     * What the menu is opened for, ie: the selected rows
+     */
+    targets?: unknown[];
+    /**
+     * Events opening the menu, a long press and Shift+F10 count as a `contextmenu`. Defaults to `["contextmenu"]`
+     */
+    triggerOn?: MenuTriggerEvent[];
+    /**
+     * Open the menu at the pointer or under the trigger.
+     * Defaults to the pointer for a right click and a long press, and to the trigger otherwise
+     */
+    position?: "pointer" | "trigger";
+    /**
+     * Placement against the trigger
+     */
+    placement?: Placement;
+    /**
+     * Options of the long press, `false` to disable it
+     */
+    longPress?: Pick<UseLongPressParams, "delay" | "tolerance"> | false;
+    disabled?: boolean;
+}
+
+const isContextMenuKey = (e: KeyboardEvent) =>
+    e.key === "ContextMenu" || (e.shiftKey && e.key === "F10");
+
+// buttons already turn Enter and Space into a click
+const isButton = (node: HTMLElement) =>
+    node.tagName === "BUTTON" ||
+    (node.tagName === "INPUT" &&
+        ["button", "submit", "reset"].includes(
+            (node as HTMLInputElement).type,
+        ));
+
+/**
+ * Props opening a menu from the element they are spread on, with its ARIA attributes
+ *
+ * ```
+ * const trigger = useMenuTrigger({ id: "menu", triggerOn: ["click"] });
+ *
+ * <button {...trigger}>Options</button>
+ * ```
+ */
+export function useMenuTrigger<TProps>({
+    id,
+    props,
+    targets,
+    triggerOn = ["contextmenu"],
+    position,
+    placement = "bottom-start",
+    longPress,
+    disabled = false,
+}: UseMenuTriggerParams<TProps>) {
+    const contextMenu = useContextMenuInstance();
+    const triggerRef = useRef<HTMLElement>(null);
+    // a callback ref fits any element, a ref object only fits the type it was created with
+    const setTriggerRef = useCallback((node: HTMLElement | null) => {
+        triggerRef.current = node;
+    }, []);
+    const [isExpanded, setExpanded] = useState(false);
+    const isExpandedRef = useRef(false);
+    // the keyboard fires a contextmenu event after the menu is open
+    const isOpenedByKeyboard = useRef(false);
+    const opensOnContextMenu = triggerOn.includes("contextmenu");
+    const opensOnClick = triggerOn.includes("click");
+
+    const longPressProps = useLongPress({
+        id,
+        props,
+        targets,
+        ...longPress,
+        disabled: disabled || !opensOnContextMenu || longPress === false,
+    });
+
+    useEffect(() => {
+        function updateExpanded(expanded: boolean) {
+            isExpandedRef.current = expanded;
+            setExpanded(expanded);
+        }
+
+        const offShown = contextMenu.on("shown", (params) => {
+            if (params.id !== id) return;
+
+            // the same menu may be opened by another trigger
+            const target = (params.triggerEvent as Event).target as Node | null;
+            updateExpanded(!!target && !!triggerRef.current?.contains(target));
+        });
+
+        const offHidden = contextMenu.on("hidden", (params) => {
+            const node = triggerRef.current;
+            if (params.id !== id || !isExpandedRef.current) return;
+
+            updateExpanded(false);
+
+            // the focus was in the menu, unless the user moved it somewhere else
+            const active = node?.ownerDocument.activeElement;
+            if (node && (!active || active === node.ownerDocument.body))
+                node.focus();
+        });
+
+        return () => {
+            offShown();
+            offHidden();
+        };
+    }, [contextMenu, id]);
+
+    function open(event: TriggerEvent, atPointer: boolean) {
+        const usePointer = position ? position === "pointer" : atPointer;
+
+        contextMenu.show({
+            id,
+            event,
+            props,
+            targets,
+            ...(!usePointer && { anchor: triggerRef.current, placement }),
+        });
+    }
+
+    return {
+        ref: setTriggerRef,
+        "aria-haspopup": "menu" as const,
+        "aria-expanded": isExpanded,
+        "aria-controls": isExpanded ? getMenuElementId(id) : undefined,
+        ...longPressProps,
+        onContextMenu(e: MouseEvent<HTMLElement>) {
+            if (isOpenedByKeyboard.current) {
+                isOpenedByKeyboard.current = false;
+                e.preventDefault();
+                e.stopPropagation();
+                return;
+            }
+
+            longPressProps.onContextMenu(e);
+            if (disabled || !opensOnContextMenu || e.defaultPrevented) return;
+
+            open(e, true);
+        },
+        onClick(e: MouseEvent<HTMLElement>) {
+            if (disabled || !opensOnClick) return;
+
+            // a button menu opens under its trigger, whatever the device
+            open(e, false);
+        },
+        onKeyDown(e: KeyboardEvent<HTMLElement>) {
+            if (disabled) return;
+
+            if (opensOnContextMenu && isContextMenuKey(e)) {
+                e.preventDefault();
+                isOpenedByKeyboard.current = true;
+                open(e, false);
+            } else if (
+                opensOnClick &&
+                (e.key === "Enter" || e.key === " ") &&
+                !isButton(e.currentTarget)
+            ) {
+                e.preventDefault();
+                open(e, false);
+            }
+        },
+        onPointerDown() {
+            isOpenedByKeyboard.current = false;
+        },
+    };
+}
@@ -1,5 +1,6 @@
 export * from "./components";
 export * from "./core";
 export * from "./hooks";
+export * from "./schema";
 export * from "./types";
 export * from "./utils";
@@ -0,0 +1,4 @@
+export * from "./merge";
+export * from "./render";
+export * from "./types";
+export * from "./validate";
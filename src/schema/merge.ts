@@ -0,0 +1,163 @@
+import type { BooleanPredicate, PredicateParams } from "../types";
+import { getNodeText, getPredicateValue, renderWithTargets } from "../utils";
+import type {
+    CheckboxDescriptor,
+    ItemDescriptor,
+    MenuItemDescriptor,
+} from "./types";
+
+export interface MergeMenusOptions {
+    /**
+     * `common` keeps the entries found in every menu, `all` keeps each entry once. Defaults to `common`
+     */
+    mode?: "common" | "all";
+}
+
+type Descriptor = MenuItemDescriptor;
+
+function getKey(descriptor: Descriptor) {
+    if (descriptor.id) return descriptor.id;
+
+    const label =
+        "label" in descriptor ? renderWithTargets(descriptor.label, []) : "";
+
+    return `${descriptor.type}:${getNodeText(label)}`;
+}
+
+function combinePredicates(
+    predicates: (BooleanPredicate | undefined)[],
+    combine: "some" | "every",
+): BooleanPredicate {
+    return (params: PredicateParams) =>
+        predicates[combine]((predicate) =>
+            getPredicateValue(predicate ?? false, params),
+        );
+}
+
+// on `common` one target hiding the entry hides it, on `all` every target must hide it
+function mergeEntry(
+    entries: Descriptor[],
+    mode: NonNullable<MergeMenusOptions["mode"]>,
+): Descriptor {
+    const [first] = entries;
+    if (entries.length === 1) return first;
+
+    const merged = {
+        ...first,
+        hidden: combinePredicates(
+            entries.map(({ hidden }) => hidden),
+            mode === "common" ? "some" : "every",
+        ),
+    } as Descriptor;
+
+    switch (merged.type) {
+        case "submenu":
+        case "group":
+            merged.items = mergeMenus(
+                entries.map((entry) => (entry as typeof merged).items),
+                { mode },
+            );
+            break;
+        case "item": {
+            const items = entries as ItemDescriptor[];
+            merged.disabled = combinePredicates(
+                items.map(({ disabled }) => disabled),
+                "some",
+            );
+            // every target runs its own action
+            merged.onClick = (args) => {
+                for (const { onClick } of items) onClick?.(args);
+            };
+            break;
+        }
+        case "checkbox": {
+            const checkboxes = entries as CheckboxDescriptor[];
+            merged.disabled = combinePredicates(
+                checkboxes.map(({ disabled }) => disabled),
+                "some",
+            );
+            merged.onCheckedChange = (checked, args) => {
+                for (const { onCheckedChange } of checkboxes)
+                    onCheckedChange?.(checked, args);
+            };
+            break;
+        }
+    }
+
+    return merged;
+}
+
+// no separator at the ends nor next to another one
+function tidySeparators(items: Descriptor[]) {
+    const tidy: Descriptor[] = [];
+
+    for (const item of items) {
+        if (
+            item.type === "separator" &&
+            (tidy.length === 0 || tidy[tidy.length - 1].type === "separator")
+        )
+            continue;
+
+        tidy.push(item);
+    }
+
+    if (tidy[tidy.length - 1]?.type === "separator") tidy.pop();
+
+    return tidy;
+}
+
+/**
+ * Merge the menus built for each target into a single one. Entries are matched by `id`, then by type and label.
+ * Matching items run the action of every target, submenus and groups are merged recursively
+ *
+ * ```
+ * const items = mergeMenus(selection.map(getFileMenu));
+ *
+ * contextMenu.show({ id: "files", event, targets: selection });
+ * ```
+ */
+export function mergeMenus<Props = any>(
+    menus: MenuItemDescriptor<Props>[][],
+    { mode = "common" }: MergeMenusOptions = {},
+): MenuItemDescriptor<Props>[] {
+    if (menus.length === 0) return [];
+
+    const entries = new Map<string, Descriptor[]>();
+    // the order of the first menu, then the entries only found in the next ones
+    const order: (string | Descriptor)[] = [];
+
+    menus.forEach((menu, index) => {
+        const seen = new Set<string>();
+
+        for (const descriptor of menu) {
+            if (descriptor.type === "separator") {
+                if (index === 0) order.push(descriptor);
+                continue;
+            }
+
+            // an entry repeated in the same menu is only counted once
+            const key = getKey(descriptor);
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            const matches = entries.get(key);
+
+            if (matches) matches.push(descriptor);
+            else {
+                entries.set(key, [descriptor]);
+                order.push(key);
+            }
+        }
+    });
+
+    const merged = order.flatMap((entry) => {
+        if (typeof entry !== "string") return [entry];
+
+        const matches = entries.get(entry)!;
+        if (mode === "common" && matches.length < menus.length) return [];
+
+        return [mergeEntry(matches, mode)];
+    });
+
+    return tidySeparators(merged);
+}
@@ -0,0 +1,114 @@
+import type { ReactNode } from "react";
+
+import { CheckboxItem } from "../components/CheckboxItem";
+import { Item } from "../components/Item";
+import { MenuGroup } from "../components/MenuGroup";
+import { RadioGroup, RadioItem } from "../components/RadioGroup";
+import { Separator } from "../components/Separator";
+import { Submenu } from "../components/Submenu";
+import type { MenuItemDescriptor } from "./types";
+
+function renderMenuItem(descriptor: MenuItemDescriptor, index: number) {
+    const key = descriptor.id ?? index;
+
+    switch (descriptor.type) {
+        case "item":
+            return (
+                <Item
+                    key={key}
+                    id={descriptor.id}
+                    data={descriptor.data}
+                    hidden={descriptor.hidden}
+                    appliesTo={descriptor.appliesTo}
+                    disabled={descriptor.disabled}
+                    onClick={descriptor.onClick}
+                    keyMatcher={descriptor.keyMatcher}
+                    shortcut={descriptor.shortcut}
+                    closeOnClick={descriptor.closeOnClick}
+                >
+                    {descriptor.label}
+                </Item>
+            );
+        case "checkbox":
+            return (
+                <CheckboxItem
+                    key={key}
+                    id={descriptor.id}
+                    data={descriptor.data}
+                    hidden={descriptor.hidden}
+                    appliesTo={descriptor.appliesTo}
+                    disabled={descriptor.disabled}
+                    keyMatcher={descriptor.keyMatcher}
+                    shortcut={descriptor.shortcut}
+                    closeOnClick={descriptor.closeOnClick}
+                    checked={descriptor.checked}
+                    defaultChecked={descriptor.defaultChecked}
+                    onCheckedChange={descriptor.onCheckedChange}
+                >
+                    {descriptor.label}
+                </CheckboxItem>
+            );
+        case "radio-group":
+            return (
+                <RadioGroup
+                    key={key}
+                    id={descriptor.id}
+                    label={descriptor.label}
+                    hidden={descriptor.hidden}
+                    value={descriptor.value}
+                    defaultValue={descriptor.defaultValue}
+                    onValueChange={descriptor.onValueChange}
+                    closeOnClick={descriptor.closeOnClick}
+                >
+                    {descriptor.items.map((radio, i) => (
+                        <RadioItem
+                            key={radio.id ?? i}
+                            id={radio.id}
+                            value={radio.value}
+                            data={radio.data}
+                            hidden={radio.hidden}
+                            appliesTo={radio.appliesTo}
+                            disabled={radio.disabled}
+                            keyMatcher={radio.keyMatcher}
+                            shortcut={radio.shortcut}
+                        >
+                            {radio.label}
+                        </RadioItem>
+                    ))}
+                </RadioGroup>
+            );
+        case "submenu":
+            return (
+                <Submenu
+                    key={key}
+                    id={descriptor.id}
+                    label={descriptor.label}
+                    hidden={descriptor.hidden}
+                    appliesTo={descriptor.appliesTo}
+                    disabled={descriptor.disabled}
+                >
+                    {renderMenuItems(descriptor.items)}
+                </Submenu>
+            );
+        case "group":
+            return (
+                <MenuGroup
+                    key={key}
+                    label={descriptor.label}
+                    hidden={descriptor.hidden}
+                >
+                    {renderMenuItems(descriptor.items)}
+                </MenuGroup>
+            );
+        case "separator":
+            return <Separator key={key} hidden={descriptor.hidden} />;
+    }
+}
+
+/**
+ * Turn a list of `MenuItemDescriptor` into `Item`, `Submenu` and friends.
+ * The result can be used as children of a `Menu` or a `Submenu`
+ */
+export function renderMenuItems(items: MenuItemDescriptor[]): ReactNode[] {
+    return items.map(renderMenuItem);
+}
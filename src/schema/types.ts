@@ -0,0 +1,116 @@
+import type { ReactNode } from "react";
+import type {
+    AppliesTo,
+    BooleanPredicate,
+    ItemParams,
+    TargetsRenderer,
+} from "../types";
+
+interface BaseDescriptor<Props = any> {
+    /**
+     * Unique id, forwarded to the rendered component. Must be unique across the whole schema
+     */
+    id?: string;
+    hidden?: BooleanPredicate<Props>;
+}
+
+export interface ItemDescriptor<
+    Props = any,
+    Data = any,
+> extends BaseDescriptor<Props> {
+    type: "item";
+    label: ReactNode | TargetsRenderer;
+    appliesTo?: AppliesTo;
+    data?: Data;
+    disabled?: BooleanPredicate<Props, Data>;
+    onClick?: (args: ItemParams<Props, Data>) => void;
+    keyMatcher?: (e: KeyboardEvent) => boolean;
+    shortcut?: string;
+    closeOnClick?: boolean;
+}
+
+export interface SubmenuDescriptor<Props = any> extends BaseDescriptor<Props> {
+    type: "submenu";
+    label: ReactNode | TargetsRenderer;
+    appliesTo?: AppliesTo;
+    items: MenuItemDescriptor<Props>[];
+    disabled?: BooleanPredicate<Props>;
+}
+
+export interface SeparatorDescriptor<
+    Props = any,
+> extends BaseDescriptor<Props> {
+    type: "separator";
+}
+
+export interface GroupDescriptor<Props = any> extends BaseDescriptor<Props> {
+    type: "group";
+    label?: ReactNode;
+    items: MenuItemDescriptor<Props>[];
+}
+
+export interface CheckboxDescriptor<
+    Props = any,
+    Data = any,
+> extends BaseDescriptor<Props> {
+    type: "checkbox";
+    label: ReactNode | TargetsRenderer;
+    appliesTo?: AppliesTo;
+    checked?: boolean;
+    defaultChecked?: boolean;
+    data?: Data;
+    disabled?: BooleanPredicate<Props, Data>;
+    onCheckedChange?: (checked: boolean, args: ItemParams<Props, Data>) => void;
+    keyMatcher?: (e: KeyboardEvent) => boolean;
+    shortcut?: string;
+    closeOnClick?: boolean;
+}
+
+export interface RadioDescriptor<
+    Props = any,
+    Data = any,
+> extends BaseDescriptor<Props> {
+    type: "radio";
+    label: ReactNode | TargetsRenderer;
+    appliesTo?: AppliesTo;
+    value: string;
+    data?: Data;
+    disabled?: BooleanPredicate<Props, Data>;
+    keyMatcher?: (e: KeyboardEvent) => boolean;
+    shortcut?: string;
+}
+
+export interface RadioGroupDescriptor<
+    Props = any,
+> extends BaseDescriptor<Props> {
+    type: "radio-group";
+    label?: ReactNode;
+    value?: string;
+    defaultValue?: string;
+    onValueChange?: (value: string, args: ItemParams<Props>) => void;
+    items: RadioDescriptor<Props>[];
+    closeOnClick?: boolean;
+}
+
+/**
+ * Describe a menu entry as plain data. Render it with `renderMenuItems` or the `items` prop of `Menu`
+ *
+ * ```
+ * const items: MenuItemDescriptor[] = [
+ *   { type: "item", id: "copy", label: "Copy", onClick: handleCopy },
+ *   { type: "separator" },
+ *   { type: "submenu", label: "Share", items: [...] },
+ * ];
+ *
+ * <Menu id="menu" items={items} />
+ * ```
+ */
+export type MenuItemDescriptor<Props = any> =
+    | ItemDescriptor<Props>
+    | SubmenuDescriptor<Props>
+    | SeparatorDescriptor<Props>
+    | GroupDescriptor<Props>
+    | CheckboxDescriptor<Props>
+    | RadioGroupDescriptor<Props>;
+
+export type MenuItemDescriptorType = MenuItemDescriptor["type"] | "radio";
@@ -0,0 +1,178 @@
+import { isValidShortcut } from "../core/shortcut";
+import type { MenuItemDescriptorType } from "./types";
+
+export interface MenuSchemaIssue {
+    code:
+        | "invalid-type"
+        | "unknown-field"
+        | "missing-field"
+        | "duplicate-id"
+        | "invalid-shortcut";
+    /**
+     * Location of the offending descriptor, ie: `items[1].items[0]`
+     */
+    path: string;
+    message: string;
+}
+
+const commonFields = ["type", "id", "hidden"];
+
+const schemaFields: Record<MenuItemDescriptorType, string[]> = {
+    item: [
+        "label",
+        "appliesTo",
+        "data",
+        "disabled",
+        "onClick",
+        "keyMatcher",
+        "shortcut",
+        "closeOnClick",
+    ],
+    submenu: ["label", "items", "disabled", "appliesTo"],
+    separator: [],
+    group: ["label", "items"],
+    checkbox: [
+        "label",
+        "appliesTo",
+        "checked",
+        "defaultChecked",
+        "data",
+        "disabled",
+        "onCheckedChange",
+        "keyMatcher",
+        "shortcut",
+        "closeOnClick",
+    ],
+    "radio-group": [
+        "label",
+        "value",
+        "defaultValue",
+        "onValueChange",
+        "items",
+        "closeOnClick",
+    ],
+    radio: [
+        "label",
+        "appliesTo",
+        "value",
+        "data",
+        "disabled",
+        "keyMatcher",
+        "shortcut",
+    ],
+};
+
+const requiredFields: Record<MenuItemDescriptorType, string[]> = {
+    item: ["label"],
+    submenu: ["label", "items"],
+    separator: [],
+    group: ["items"],
+    checkbox: ["label"],
+    "radio-group": ["items"],
+    radio: ["label", "value"],
+};
+
+/**
+ * Check a menu schema before rendering it. Useful when the schema comes from a remote config.
+ * Returns an empty array when the schema is valid
+ *
+ * ```
+ * const issues = validateMenuItems(items);
+ * if (issues.length) console.warn(issues);
+ * ```
+ */
+export function validateMenuItems(items: unknown): MenuSchemaIssue[] {
+    const issues: MenuSchemaIssue[] = [];
+    const ids = new Map<string, string>();
+
+    function walk(
+        list: unknown,
+        path: string,
+        allowed: MenuItemDescriptorType[] | null,
+    ) {
+        if (!Array.isArray(list)) {
+            issues.push({
+                code: "invalid-type",
+                path,
+                message: "Expected an array of descriptors",
+            });
+            return;
+        }
+
+        list.forEach((descriptor: Record<string, unknown>, i) => {
+            const at = `${path}[${i}]`;
+            const type = descriptor?.type as MenuItemDescriptorType;
+
+            if (
+                !Object.hasOwn(schemaFields, type) ||
+                (allowed && !allowed.includes(type)) ||
+                (!allowed && type === "radio")
+            ) {
+                issues.push({
+                    code: "invalid-type",
+                    path: at,
+                    message: `Unsupported descriptor type "${String(type)}"`,
+                });
+                return;
+            }
+
+            const fields = [...commonFields, ...schemaFields[type]];
+            for (const key of Object.keys(descriptor)) {
+                if (!fields.includes(key))
+                    issues.push({
+                        code: "unknown-field",
+                        path: at,
+                        message: `Unknown field "${key}" on "${type}"`,
+                    });
+            }
+
+            for (const key of requiredFields[type]) {
+                if (descriptor[key] === undefined)
+                    issues.push({
+                        code: "missing-field",
+                        path: at,
+                        message: `Missing field "${key}" on "${type}"`,
+                    });
+            }
+
+            if (
+                descriptor.shortcut !== undefined &&
+                !(
+                    typeof descriptor.shortcut === "string" &&
+                    isValidShortcut(descriptor.shortcut)
+                )
+            )
+                issues.push({
+                    code: "invalid-shortcut",
+                    path: at,
+                    message: `Invalid shortcut ${JSON.stringify(descriptor.shortcut)} on "${type}"`,
+                });
+
+            if (descriptor.id != null) {
+                const id = String(descriptor.id);
+                const previous = ids.get(id);
+
+                if (previous) {
+                    issues.push({
+                        code: "duplicate-id",
+                        path: at,
+                        message: `Duplicate id "${id}", already used at ${previous}`,
+                    });
+                } else {
+                    ids.set(id, at);
+                }
+            }
+
+            if (descriptor.items !== undefined)
+                walk(
+                    descriptor.items,
+                    `${at}.items`,
+                    type === "radio-group" ? ["radio"] : null,
+                );
+        });
+    }
+
+    walk(items, "items", null);
+
+    return issues;
+}
@@ -16,17 +16,49 @@ export type TriggerEvent =
     | React.TouchEvent
     | React.KeyboardEvent;
 
-export type BooleanPredicate = boolean | ((args: HandlerParams) => boolean);
+export type BooleanPredicate<Props = any, Data = any, Target = any> =
+    boolean | ((args: HandlerParams<Props, Data, Target>) => boolean);
+
+/**
+ * Whether an item is available for one target, several, or a custom selection
+ */
+export type AppliesTo<Target = any> =
+    "single" | "multi" | ((targets: Target[]) => boolean);
+
+/**
+ * Content rendered from the targets of the menu
+ *
+ * ```
+ * <Item>{({ count }) => `Delete ${count} files`}</Item>
+ * ```
+ */
+export type TargetsRenderer<Target = any> = (params: {
+    targets: Target[];
+    count: number;
+}) => React.ReactNode;
 
 /**
  * Unique id to identify the menu. Use to Trigger the corresponding menu
  */
 export type MenuId = string | number;
 
+declare const menuProps: unique symbol;
+
+/**
+ * Menu id carrying the type of the props the menu expects. Created by `createMenu`
+ */
+export type TypedMenuId<Props> = MenuId & { readonly [menuProps]: Props };
+
+/**
+ * Menu id without a props type, a `TypedMenuId` doesn't match it.
+ * Paired with `TypedMenuId`, the props shown with a typed id must be the ones of its menu
+ */
+export type UntypedMenuId = MenuId & { readonly [menuProps]?: never };
+
 /**
  * Used both by `PredicatParams` and `ItemParams`
  */
-interface HandlerParams<Props = any, Data = any> {
+interface HandlerParams<Props = any, Data = any, Target = any> {
     /**
      * The id of the item when provided
      */
@@ -46,6 +78,11 @@ interface HandlerParams<Props = any, Data = any> {
      * Data object provided to item
      */
     data?: Data;
+
+    /**
+     * What the menu was opened for, ie: the selected rows. Defaults to `[props]` when only props are given
+     */
+    targets: Target[];
 }
 
 /**
@@ -62,10 +99,11 @@ interface HandlerParams<Props = any, Data = any> {
  * <Item disabled={isItemDisabled} data={data}>content</Item>
  * ```
  */
-export type PredicateParams<Props = any, Data = any> = HandlerParams<
-    Props,
-    Data
->;
+export type PredicateParams<
+    Props = any,
+    Data = any,
+    Target = any,
+> = HandlerParams<Props, Data, Target>;
 
 /**
  * Callback when the `Item` is clicked.
@@ -94,10 +132,11 @@ export type PredicateParams<Props = any, Data = any> = HandlerParams<
  * <Item id="item-id" onClick={handleItemClick} data={{key: 'value'}} data-foo={123} >Something</Item>
  * ```
  */
-export interface ItemParams<Props = any, Data = any> extends HandlerParams<
-    Props,
-    Data
-> {
+export interface ItemParams<
+    Props = any,
+    Data = any,
+    Target = any,
+> extends HandlerParams<Props, Data, Target> {
     event:
         | React.MouseEvent<HTMLElement>
         | React.TouchEvent<HTMLElement>
@@ -1,11 +1,21 @@
 import {
     Children,
     cloneElement,
+    isValidElement,
     type ReactElement,
     type ReactNode,
+    type RefObject,
 } from "react";
 
-import type { BooleanPredicate, PredicateParams, TriggerEvent } from "./types";
+import type { Boundary, Rect } from "./core/positioning";
+import type {
+    AppliesTo,
+    BooleanPredicate,
+    MenuId,
+    PredicateParams,
+    TargetsRenderer,
+    TriggerEvent,
+} from "./types";
 
 // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
 export function isFn(v: any): v is Function {
@@ -16,6 +26,14 @@ export function isStr(v: any): v is string {
     return typeof v === "string";
 }
 
+export function isEditable(target: EventTarget | null) {
+    return (
+        target instanceof HTMLElement &&
+        (target.isContentEditable ||
+            ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+    );
+}
+
 export function cloneItems(
     children: ReactNode,
     props: { triggerEvent: TriggerEvent; propsFromTrigger?: object },
@@ -27,6 +45,56 @@ export function cloneItems(
     );
 }
 
+/**
+ * Plain text of a react node, used for the typeahead and the filter
+ */
+export function getNodeText(node: ReactNode): string {
+    if (typeof node === "string" || typeof node === "number")
+        return String(node);
+    if (Array.isArray(node)) return node.map(getNodeText).join("");
+    if (isValidElement<{ children?: ReactNode }>(node))
+        return getNodeText(node.props.children);
+
+    return "";
+}
+
+export type FilterFn = (text: string, query: string) => boolean;
+
+export const defaultFilter: FilterFn = (text, query) =>
+    text.toLowerCase().includes(query.trim().toLowerCase());
+
+/**
+ * Whether one of the items, nested ones included, matches the filter
+ */
+export function hasFilterMatch(
+    children: ReactNode,
+    query: string,
+    filter: FilterFn,
+    targets: unknown[] = [],
+): boolean {
+    return Children.toArray(children).some((child) => {
+        if (!isValidElement<Record<string, any>>(child))
+            return filter(getNodeText(child), query);
+
+        const { label, textValue } = child.props;
+        const nested = renderWithTargets(child.props.children, targets);
+
+        if (label != null)
+            return (
+                filter(getNodeText(renderWithTargets(label, targets)), query) ||
+                hasFilterMatch(nested, query, filter, targets)
+            );
+
+        if (textValue != null) return filter(textValue, query);
+
+        // an unlabeled group, each of its items matches on its own text
+        if (Children.toArray(nested).some(isValidElement))
+            return hasFilterMatch(nested, query, filter, targets);
+
+        return filter(getNodeText(nested), query);
+    });
+}
+
 export function getMousePosition(e: TriggerEvent) {
     const pos = {
         x: (e as MouseEvent).clientX,
@@ -48,9 +116,88 @@ export function getMousePosition(e: TriggerEvent) {
     return pos;
 }
 
+/**
+ * Window of the node, it differs from the global one inside an iframe
+ */
+export function getOwnerWindow(node?: Node | null): Window {
+    return node?.ownerDocument?.defaultView ?? window;
+}
+
+/**
+ * DOM id of the menu element, used by `aria-controls`
+ */
+export const getMenuElementId = (id: MenuId) =>
+    `contexify-menu-${String(id).replace(/\s+/g, "-")}`;
+
+/**
+ * Focused element, looking inside the shadow roots
+ */
+export function getActiveElement(doc: Document = document) {
+    let active = doc.activeElement;
+    while (active?.shadowRoot?.activeElement)
+        active = active.shadowRoot.activeElement;
+
+    return active;
+}
+
+export type Direction = "ltr" | "rtl";
+
+/**
+ * Writing direction of the element, from its styles and `dir` attributes
+ */
+export function getDirection(node?: Element | null): Direction {
+    const doc = node?.ownerDocument ?? document;
+    const element = node ?? doc.documentElement;
+    const direction = doc.defaultView?.getComputedStyle(element).direction;
+
+    return direction === "rtl" ? "rtl" : "ltr";
+}
+
+export function getPointRect({ x, y }: { x: number; y: number }): Rect {
+    return { x, y, width: 0, height: 0 };
+}
+
+export function resolveBoundary(
+    boundary?: Boundary | RefObject<Element | null>,
+): Boundary | undefined {
+    if (boundary == null || boundary === "viewport") return boundary;
+    if ("current" in boundary) return boundary.current ?? undefined;
+
+    return boundary;
+}
+
 export function getPredicateValue(
     predicate: BooleanPredicate,
     payload: PredicateParams,
 ) {
     return isFn(predicate) ? predicate(payload) : predicate;
 }
+
+/**
+ * Whether the item is available for the targets of the menu
+ */
+export function appliesToTargets(
+    appliesTo: AppliesTo | undefined,
+    targets: unknown[],
+) {
+    if (appliesTo === "single") return targets.length === 1;
+    if (appliesTo === "multi") return targets.length > 1;
+
+    return appliesTo ? appliesTo(targets) : true;
+}
+
+export const renderWithTargets = (
+    content: ReactNode | TargetsRenderer,
+    targets: unknown[],
+) => (isFn(content) ? content({ targets, count: targets.length }) : content);
+
+function isDevelopment() {
+    const env = (globalThis as { process?: { env?: { NODE_ENV?: string } } })
+        .process?.env;
+
+    return env?.NODE_ENV !== "production";
+}
+
+export function warnInDev(message: string, ...args: unknown[]) {
+    if (isDevelopment()) console.warn(`[Contexify] ${message}`, ...args);
+}